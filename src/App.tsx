@@ -1,16 +1,56 @@
 import React from 'react';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { GuacamoleClient } from './components/GuacamoleClient';
+import { parseClipboardPolicy } from './lib/guacamole/ClipboardPolicy';
+import { createHttpRefresher, createParentWindowRefresher } from './lib/auth/TokenRefresh';
+import { parseTokenSources } from './lib/auth/TokenSources';
+import { exposeLoggerControls, initLogLevel, logger, parseLogLevel } from './lib/utils/logger';
+import { HttpLogSink } from './lib/utils/HttpLogSink';
 
 //import  GuacamoleClient  from './components/GuacamoleClient';
 
 const WEBSOCKET_URL = import.meta.env.VITE_GUACAMOLE_WS_URL || 'ws://localhost:8080/guacamole/websocket-tunnel';
+const HTTP_TUNNEL_URL = import.meta.env.VITE_GUACAMOLE_HTTP_URL || '';
 const DEBUG_MODE = import.meta.env.VITE_DEBUG === 'true';
+const CLIPBOARD_POLICY = parseClipboardPolicy(import.meta.env.VITE_CLIPBOARD_POLICY) ?? undefined;
+
+// A level saved from the devtools console or the diagnostics HUD wins over the build default
+initLogLevel(parseLogLevel(import.meta.env.VITE_LOG_LEVEL));
+exposeLoggerControls();
+
+if (import.meta.env.VITE_LOG_ENDPOINT) {
+  const level = parseLogLevel(import.meta.env.VITE_LOG_ENDPOINT_LEVEL);
+  logger.addSink(new HttpLogSink({ url: import.meta.env.VITE_LOG_ENDPOINT, ...(level !== null && { level }) }));
+}
+
+// Origin of the page embedding the client, when it runs in an iframe
+const PARENT_ORIGIN = import.meta.env.VITE_PARENT_ORIGIN || '';
+
+// An HTTP endpoint wins over the parent window when both are configured
+const TOKEN_REFRESHER = import.meta.env.VITE_TOKEN_REFRESH_URL
+  ? createHttpRefresher(import.meta.env.VITE_TOKEN_REFRESH_URL)
+  : PARENT_ORIGIN
+    ? createParentWindowRefresher(PARENT_ORIGIN)
+    : undefined;
+
+const TOKEN_SOURCES =
+  parseTokenSources(import.meta.env.VITE_TOKEN_SOURCES, {
+    exchangeURL: import.meta.env.VITE_TOKEN_EXCHANGE_URL,
+    parentOrigin: PARENT_ORIGIN,
+  }) ?? undefined;
 
 function App() {
   return (
     <ErrorBoundary>
-      <GuacamoleClient websocketURL={WEBSOCKET_URL} debug={DEBUG_MODE} />
+      <GuacamoleClient
+        websocketURL={WEBSOCKET_URL}
+        httpTunnelURL={HTTP_TUNNEL_URL}
+        debug={DEBUG_MODE}
+        clipboardPolicy={CLIPBOARD_POLICY}
+        tokenRefresher={TOKEN_REFRESHER}
+        tokenSources={TOKEN_SOURCES}
+        embedOrigin={PARENT_ORIGIN || undefined}
+      />
     </ErrorBoundary>
   );
 }
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Volume2, VolumeX, Mic, MicOff, Loader2 } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { AudioState, MicrophoneState } from '../lib/guacamole/AudioManager';
+
+interface AudioControlsProps {
+  connection: GuacamoleConnection;
+}
+
+const MICROPHONE_TITLES: Record<MicrophoneState, string> = {
+  off: 'Turn microphone on',
+  requesting: 'Waiting for microphone permission...',
+  on: 'Turn microphone off',
+  denied: 'Microphone access denied. Allow it in the browser site settings and try again.',
+  unavailable: 'Microphone unavailable for this session',
+};
+
+export const AudioControls: React.FC<AudioControlsProps> = ({ connection }) => {
+  const [audio, setAudio] = useState<AudioState>(connection.getAudioState());
+
+  useEffect(() => {
+    return connection.on('audio', setAudio);
+  }, [connection]);
+
+  const buttonClass = 'p-2 rounded-lg transition-colors hover:bg-neutral-700';
+
+  const renderMicrophoneIcon = () => {
+    switch (audio.microphone) {
+      case 'on':
+        return <Mic className="w-5 h-5 text-green-400" />;
+      case 'requesting':
+        return <Loader2 className="w-5 h-5 text-neutral-300 animate-spin" />;
+      case 'denied':
+        return <MicOff className="w-5 h-5 text-red-400" />;
+      default:
+        return <MicOff className="w-5 h-5 text-neutral-400" />;
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        // While blocked, the click itself is the gesture that unlocks playback
+        onClick={() => !audio.playbackBlocked && connection.setAudioMuted(!audio.muted)}
+        className={buttonClass}
+        title={
+          audio.muted
+            ? 'Unmute remote audio'
+            : audio.playbackBlocked
+              ? 'Audio is paused by the browser. Click to enable it.'
+              : 'Mute remote audio'
+        }
+      >
+        {audio.muted ? (
+          <VolumeX className="w-5 h-5 text-neutral-400" />
+        ) : (
+          <Volume2 className={`w-5 h-5 ${audio.playbackBlocked ? 'text-yellow-400 animate-pulse' : 'text-white'}`} />
+        )}
+      </button>
+
+      <button
+        onClick={() => connection.setMicrophoneEnabled(audio.microphone !== 'on' && audio.microphone !== 'requesting')}
+        className={buttonClass}
+        title={MICROPHONE_TITLES[audio.microphone]}
+      >
+        {renderMicrophoneIcon()}
+      </button>
+    </div>
+  );
+};
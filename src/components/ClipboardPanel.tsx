@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Image, Search, Send, Trash2, X } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { ClipboardEntry } from '../lib/guacamole/ClipboardHistory';
+import { ClipboardSyncStatus } from '../lib/guacamole/ClipboardManager';
+import { allowsFlow } from '../lib/guacamole/ClipboardPolicy';
+
+interface ClipboardPanelProps {
+  connection: GuacamoleConnection;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const HistoryRow: React.FC<{ entry: ClipboardEntry; onSelect: () => void }> = ({ entry, onSelect }) => {
+  const sent = entry.flow === 'local-to-remote';
+  const DirectionIcon = sent ? ArrowUpRight : ArrowDownLeft;
+
+  return (
+    <li>
+      <button
+        onClick={onSelect}
+        disabled={entry.text === null}
+        className="w-full text-left px-4 py-2 border-b border-neutral-700 hover:bg-neutral-700 disabled:hover:bg-transparent"
+        title={entry.text === null ? undefined : 'Load into the editor'}
+      >
+        <div className="flex items-center gap-2 text-xs text-neutral-400">
+          <DirectionIcon className={`w-3 h-3 ${sent ? 'text-blue-400' : 'text-green-400'}`} />
+          <span>{sent ? 'Sent' : 'Received'}</span>
+          <span className="ml-auto">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        </div>
+        {entry.text === null ? (
+          <div className="mt-1 flex items-center gap-1 text-sm text-neutral-300">
+            <Image className="w-4 h-4" />
+            Image ({formatBytes(entry.size)})
+          </div>
+        ) : (
+          <div className="mt-1 text-sm text-white font-mono truncate">{entry.text}</div>
+        )}
+      </button>
+    </li>
+  );
+};
+
+/**
+ * Shows what went through the clipboard and lets users edit and send text by
+ * hand when the browser will not let the page read the clipboard.
+ */
+export const ClipboardPanel: React.FC<ClipboardPanelProps> = ({ connection, onClose }) => {
+  const [history, setHistory] = useState<ClipboardEntry[]>(connection.getClipboardHistory());
+  const [syncStatus, setSyncStatus] = useState<ClipboardSyncStatus>(connection.getClipboardSyncStatus());
+  const [text, setText] = useState(() => history.find((entry) => entry.text !== null)?.text ?? '');
+  const [query, setQuery] = useState('');
+
+  const canSend = allowsFlow(connection.getClipboardPolicy(), 'local-to-remote');
+  const latest = history[0];
+
+  useEffect(() => {
+    const unsubscribeHistory = connection.on('clipboardhistory', setHistory);
+    const unsubscribeSync = connection.on('clipboardsync', setSyncStatus);
+
+    return () => {
+      unsubscribeHistory();
+      unsubscribeSync();
+    };
+  }, [connection]);
+
+  // The editor follows the remote clipboard as new content arrives
+  useEffect(() => {
+    if (latest && latest.text !== null) {
+      setText(latest.text);
+    }
+  }, [latest]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return history;
+    return history.filter((entry) => entry.text?.toLowerCase().includes(needle));
+  }, [history, query]);
+
+  return (
+    <aside className="absolute top-0 right-0 bottom-0 z-20 w-80 bg-neutral-800 border-l border-neutral-700 shadow-xl flex flex-col">
+      <div className="px-4 py-3 border-b border-neutral-700 flex items-center justify-between">
+        <span className="text-sm font-semibold text-white">Clipboard</span>
+        <button onClick={onClose} className="text-neutral-400 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-neutral-700">
+        <textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          rows={6}
+          placeholder="Remote clipboard contents"
+          className="w-full bg-neutral-700 text-white text-sm font-mono rounded px-2 py-1 placeholder-neutral-500 resize-none"
+        />
+        <button
+          onClick={() => connection.sendClipboardText(text)}
+          disabled={text === '' || !canSend}
+          className="w-full flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white text-sm rounded px-3 py-1.5 font-medium"
+          title={canSend ? 'Replace the remote clipboard with this text' : 'Disabled by the clipboard policy'}
+        >
+          <Send className="w-4 h-4" />
+          Send to remote
+        </button>
+
+        <label className="flex items-center gap-2 text-xs text-neutral-300 pt-1">
+          <input
+            type="checkbox"
+            checked={syncStatus.polling}
+            onChange={(event) => connection.setClipboardPolling(event.target.checked)}
+          />
+          Sync local clipboard automatically
+        </label>
+        {syncStatus.readable === false && (
+          <p className="text-xs text-yellow-400">
+            This browser does not allow reading the clipboard. Turn off automatic sync and paste here or over the
+            desktop instead.
+          </p>
+        )}
+      </div>
+
+      <div className="px-4 py-2 border-b border-neutral-700 flex items-center gap-2">
+        <Search className="w-4 h-4 text-neutral-400 shrink-0" />
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search history"
+          className="flex-1 min-w-0 bg-transparent text-white text-sm placeholder-neutral-500 outline-none"
+        />
+        <button
+          onClick={() => connection.clearClipboardHistory()}
+          disabled={history.length === 0}
+          className="text-neutral-400 hover:text-red-400 disabled:opacity-40"
+          title="Clear history"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto">
+        {filtered.map((entry) => (
+          <HistoryRow key={entry.id} entry={entry} onSelect={() => setText(entry.text ?? '')} />
+        ))}
+        {filtered.length === 0 && (
+          <li className="px-4 py-6 text-center text-sm text-neutral-500">
+            {history.length === 0 ? 'Nothing copied yet' : 'No matches'}
+          </li>
+        )}
+      </ul>
+    </aside>
+  );
+};
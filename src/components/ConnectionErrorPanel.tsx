@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Monitor, RefreshCw, ArrowLeft, Copy, Check, Clock, ShieldAlert, Download } from 'lucide-react';
+import { GuacamoleError, SuggestedAction, getActionLabel } from '../lib/guacamole/GuacamoleError';
+
+interface ConnectionErrorPanelProps {
+  error: GuacamoleError;
+  onRetry: () => void;
+  onDownloadDiagnostics?: () => void;
+}
+
+export const ConnectionErrorPanel: React.FC<ConnectionErrorPanelProps> = ({ error, onRetry, onDownloadDiagnostics }) => {
+  const [copied, setCopied] = useState(false);
+
+  const codeLabel = error.getCodeLabel();
+
+  const handleCopyDetails = async () => {
+    const details = [
+      `${error.title}${codeLabel ? ` (${codeLabel})` : ''}`,
+      `Category: ${error.category}`,
+      `Detail: ${error.message}`,
+      `Time: ${new Date().toISOString()}`,
+    ].join('\n');
+
+    try {
+      await navigator.clipboard.writeText(details);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const renderPrimaryAction = () => {
+    const label = getActionLabel(error.action);
+    const buttonClass =
+      'bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors inline-flex items-center gap-2';
+
+    switch (error.action) {
+      case SuggestedAction.REAUTHENTICATE:
+        return (
+          <button onClick={() => window.history.back()} className={buttonClass}>
+            <ArrowLeft className="w-4 h-4" />
+            {label}
+          </button>
+        );
+      case SuggestedAction.CONTACT_SUPPORT:
+        return (
+          <button onClick={handleCopyDetails} className={buttonClass}>
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {label}
+          </button>
+        );
+      case SuggestedAction.WAIT_AND_RETRY:
+        return (
+          <button onClick={onRetry} className={buttonClass}>
+            <Clock className="w-4 h-4" />
+            {label}
+          </button>
+        );
+      case SuggestedAction.RECONNECT_ANYWAY:
+        return (
+          <button onClick={onRetry} className={buttonClass}>
+            <ShieldAlert className="w-4 h-4" />
+            {label}
+          </button>
+        );
+      case SuggestedAction.RETRY:
+      default:
+        return (
+          <button onClick={onRetry} className={buttonClass}>
+            <RefreshCw className="w-4 h-4" />
+            {label}
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-neutral-800 rounded-lg shadow-xl p-8 text-center">
+      <div className="w-16 h-16 bg-red-600 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Monitor className="w-8 h-8 text-white" />
+      </div>
+      <h2 className="text-2xl font-bold text-white mb-2">{error.title}</h2>
+      <p className="text-neutral-400 mb-2">{error.userMessage}</p>
+      {codeLabel && <p className="text-neutral-500 text-xs font-mono mb-6">Error {codeLabel}</p>}
+      {!codeLabel && <div className="mb-6" />}
+
+      <div className="flex flex-col items-center gap-3">
+        {renderPrimaryAction()}
+
+        {error.action === SuggestedAction.RECONNECT_ANYWAY && (
+          <p className="text-neutral-500 text-xs">Reconnecting may close the session in the other window.</p>
+        )}
+
+        {onDownloadDiagnostics && (
+          <button
+            onClick={onDownloadDiagnostics}
+            className="text-neutral-400 hover:text-white text-sm inline-flex items-center gap-2 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download diagnostics
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Signal, SignalHigh, SignalMedium, SignalLow, SignalZero } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { ConnectionMetrics, ConnectionQuality } from '../lib/guacamole/ConnectionMetricsManager';
+
+interface ConnectionQualityIndicatorProps {
+  connection: GuacamoleConnection;
+}
+
+interface SparklineProps {
+  values: number[];
+  color: string;
+}
+
+const Sparkline: React.FC<SparklineProps> = ({ values, color }) => {
+  const width = 120;
+  const height = 24;
+
+  if (values.length < 2) {
+    return <svg width={width} height={height} />;
+  }
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - (value / max) * height).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const QUALITY_CONFIG: Record<ConnectionQuality, { icon: typeof Signal; color: string; label: string }> = {
+  excellent: { icon: Signal, color: 'text-green-400', label: 'Excellent' },
+  good: { icon: SignalHigh, color: 'text-green-400', label: 'Good' },
+  fair: { icon: SignalMedium, color: 'text-yellow-400', label: 'Fair' },
+  poor: { icon: SignalLow, color: 'text-red-400', label: 'Poor' },
+  unknown: { icon: SignalZero, color: 'text-neutral-400', label: 'Measuring...' },
+};
+
+const formatBytes = (bytesPerSecond: number): string => {
+  if (bytesPerSecond >= 1024 * 1024) {
+    return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+  }
+  if (bytesPerSecond >= 1024) {
+    return `${(bytesPerSecond / 1024).toFixed(1)} KB/s`;
+  }
+  return `${bytesPerSecond} B/s`;
+};
+
+export const ConnectionQualityIndicator: React.FC<ConnectionQualityIndicatorProps> = ({ connection }) => {
+  const [metrics, setMetrics] = useState<ConnectionMetrics | null>(connection.getMetrics());
+  const [history, setHistory] = useState<ConnectionMetrics[]>(connection.getMetricsHistory());
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    return connection.on('metrics', (sample) => {
+      setMetrics(sample);
+      setHistory(connection.getMetricsHistory());
+    });
+  }, [connection]);
+
+  const quality = metrics?.quality ?? 'unknown';
+  const config = QUALITY_CONFIG[quality];
+  const Icon = config.icon;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="bg-neutral-700 hover:bg-neutral-600 rounded-full p-2 transition-colors"
+        title={`Connection quality: ${config.label}`}
+      >
+        <Icon className={`w-4 h-4 ${config.color}`} />
+      </button>
+
+      {expanded && (
+        <div className="absolute right-0 mt-2 w-72 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-4 z-20">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-sm font-semibold text-white">Connection Quality</span>
+            <span className={`text-sm font-medium ${config.color}`}>
+              {config.label}
+              {metrics?.qualityScore !== null && metrics?.qualityScore !== undefined && ` (${metrics.qualityScore})`}
+            </span>
+          </div>
+
+          <div className="space-y-3 text-xs text-neutral-300">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-neutral-400" title="Delay added on top of the fastest recent update">Latency variation</p>
+                <p className="font-mono text-white">
+                  {metrics?.latencyVariationMs !== null && metrics?.latencyVariationMs !== undefined
+                    ? `+${metrics.latencyVariationMs} ms ± ${metrics.jitterMs ?? 0}`
+                    : '—'}
+                </p>
+              </div>
+              <Sparkline values={history.map((sample) => sample.latencyVariationMs ?? 0)} color="#f87171" />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-neutral-400">Frame rate</p>
+                <p className="font-mono text-white">{metrics ? `${metrics.framesPerSecond} fps` : '—'}</p>
+              </div>
+              <Sparkline values={history.map((sample) => sample.framesPerSecond)} color="#60a5fa" />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-neutral-400">Bandwidth</p>
+                <p className="font-mono text-white">{metrics ? formatBytes(metrics.bytesPerSecond) : '—'}</p>
+              </div>
+              <Sparkline values={history.map((sample) => sample.bytesPerSecond)} color="#4ade80" />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,22 @@
 import React from 'react';
-import { Wifi, WifiOff, Loader2, AlertTriangle } from 'lucide-react';
-import { ConnectionState } from '../lib/guacamole/GuacamoleConnection';
+import { Wifi, WifiOff, Loader2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { ConnectionState, TunnelTransport } from '../lib/guacamole/GuacamoleConnection';
+import { ReconnectProgress } from '../lib/guacamole/ReconnectManager';
+import { GuacamoleError } from '../lib/guacamole/GuacamoleError';
 
 interface ConnectionStatusProps {
   state: ConnectionState;
-  error?: string;
+  error?: GuacamoleError | null;
+  reconnectProgress?: ReconnectProgress | null;
+  transport?: TunnelTransport | null;
 }
 
-export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, error }) => {
+export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
+  state,
+  error,
+  reconnectProgress,
+  transport,
+}) => {
   const getStatusConfig = () => {
     switch (state) {
       case ConnectionState.IDLE:
@@ -32,6 +41,16 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, error
           bgColor: 'bg-green-600',
           textColor: 'text-white',
         };
+      case ConnectionState.RECONNECTING:
+        return {
+          icon: RefreshCw,
+          text: reconnectProgress
+            ? `Reconnecting (${reconnectProgress.attempt}/${reconnectProgress.maxAttempts})...`
+            : 'Reconnecting...',
+          bgColor: 'bg-orange-600',
+          textColor: 'text-white',
+          animate: true,
+        };
       case ConnectionState.DISCONNECTING:
         return {
           icon: Loader2,
@@ -74,9 +93,24 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ state, error
         <span className={`text-sm font-medium ${config.textColor}`}>{config.text}</span>
       </div>
 
+      {transport && state === ConnectionState.CONNECTED && (
+        <div
+          className={`rounded-full px-3 py-1 text-xs font-semibold uppercase ${
+            transport === 'http' ? 'bg-yellow-600 text-white' : 'bg-neutral-700 text-neutral-300'
+          }`}
+          title={
+            transport === 'http'
+              ? 'WebSocket unavailable, using the slower HTTP tunnel'
+              : 'Connected over WebSocket'
+          }
+        >
+          {transport === 'http' ? 'HTTP (degraded)' : 'WebSocket'}
+        </div>
+      )}
+
       {error && state === ConnectionState.ERROR && (
         <div className="bg-red-900 border border-red-700 rounded-lg px-4 py-2 max-w-md">
-          <p className="text-sm text-red-100">{error}</p>
+          <p className="text-sm text-red-100" title={error.message}>{error.title}</p>
         </div>
       )}
     </div>
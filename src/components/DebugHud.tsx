@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { DiagnosticsSnapshot } from '../lib/guacamole/DiagnosticsManager';
+import { LogLevel, setLogLevel } from '../lib/utils/logger';
+
+interface DebugHudProps {
+  connection: GuacamoleConnection;
+}
+
+const formatKeysym = (keysym: number): string => `0x${keysym.toString(16).padStart(4, '0')}`;
+
+export const DebugHud: React.FC<DebugHudProps> = ({ connection }) => {
+  const [visible, setVisible] = useState(connection.isDebugHudVisible());
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot | null>(null);
+
+  useEffect(() => {
+    const unsubscribeVisibility = connection.on('debughud', setVisible);
+    const unsubscribeSnapshot = connection.on('diagnostics', setSnapshot);
+
+    return () => {
+      unsubscribeVisibility();
+      unsubscribeSnapshot();
+    };
+  }, [connection]);
+
+  if (!visible) {
+    return null;
+  }
+
+  const rows: Array<[string, string]> = snapshot
+    ? [
+        ['Display', `${snapshot.displayWidth}x${snapshot.displayHeight}`],
+        ['Container', `${snapshot.containerWidth}x${snapshot.containerHeight}`],
+        ['Scale', snapshot.scale.toFixed(3)],
+        ['Pixel ratio', String(snapshot.devicePixelRatio)],
+        [
+          'Last sent size',
+          snapshot.lastSentSize ? `${snapshot.lastSentSize.width}x${snapshot.lastSentSize.height}` : '—',
+        ],
+        ['Pressed keys', snapshot.pressedKeys.length ? snapshot.pressedKeys.map(formatKeysym).join(' ') : 'none'],
+        ['Connection', snapshot.connectionState],
+        ['Tunnel', snapshot.transport ? `${snapshot.tunnelState} (${snapshot.transport})` : snapshot.tunnelState],
+      ]
+    : [];
+
+  return (
+    <div className="absolute top-3 left-3 z-30 bg-black/75 text-white font-mono text-xs rounded-lg p-3 min-w-[16rem] pointer-events-auto">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-red-400">Diagnostics</span>
+        <button
+          onClick={() => connection.setDebugHudVisible(false)}
+          className="text-neutral-400 hover:text-white"
+          title="Hide (Ctrl+Alt+Shift+D)"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-neutral-400">Waiting for display...</p>
+      ) : (
+        <table>
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <td className="pr-3 text-neutral-400 align-top">{label}</td>
+                <td className="break-all">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <label className="flex items-center gap-3 mt-2">
+        <span className="text-neutral-400">Log level</span>
+        <select
+          value={snapshot?.logLevel ?? LogLevel[LogLevel.INFO]}
+          onChange={(event) => setLogLevel(LogLevel[event.target.value as keyof typeof LogLevel], true)}
+          className="bg-neutral-800 text-white rounded px-1"
+          title="Kept for this browser until changed"
+        >
+          {[LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.NONE].map((level) => (
+            <option key={level} value={LogLevel[level]}>
+              {LogLevel[level]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Folder, File as FileIcon, ChevronRight, RefreshCw, Upload, X, HardDrive } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { RemoteFilesystem, RemoteFile } from '../lib/guacamole/RemoteFilesystemManager';
+
+interface FileBrowserPanelProps {
+  connection: GuacamoleConnection;
+  onClose: () => void;
+}
+
+const ROOT_PATH = '/';
+
+const getBreadcrumbs = (path: string): Array<{ name: string; path: string }> => {
+  const segments = path.split('/').filter(Boolean);
+  return segments.map((name, index) => ({
+    name,
+    path: `/${segments.slice(0, index + 1).join('/')}`,
+  }));
+};
+
+export const FileBrowserPanel: React.FC<FileBrowserPanelProps> = ({ connection, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filesystems, setFilesystems] = useState<RemoteFilesystem[]>(connection.getFilesystems());
+  const [selected, setSelected] = useState<number | null>(null);
+  const [path, setPath] = useState(ROOT_PATH);
+  const [entries, setEntries] = useState<RemoteFile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return connection.on('filesystems', setFilesystems);
+  }, [connection]);
+
+  // Fall back to the first drive when none is selected or the selected one goes away
+  useEffect(() => {
+    if (selected === null || !filesystems.some((filesystem) => filesystem.index === selected)) {
+      setSelected(filesystems.length > 0 ? filesystems[0].index : null);
+      setPath(ROOT_PATH);
+    }
+  }, [filesystems, selected]);
+
+  const loadDirectory = useCallback(() => {
+    if (selected === null) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    connection
+      .listRemoteDirectory(selected, path)
+      .then((files) => {
+        if (!cancelled) {
+          setEntries(files);
+        }
+      })
+      .catch((listError) => {
+        if (!cancelled) {
+          setEntries([]);
+          setError(listError instanceof Error ? listError.message : String(listError));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, selected, path]);
+
+  useEffect(() => loadDirectory(), [loadDirectory]);
+
+  const handleEntryClick = (entry: RemoteFile) => {
+    if (selected === null) return;
+
+    if (entry.type === 'directory') {
+      setPath(entry.path);
+    } else {
+      connection.downloadRemoteFile(selected, entry.path);
+    }
+  };
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0 && selected !== null) {
+      connection.uploadToRemoteDirectory(selected, path, files);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 bottom-0 z-20 w-80 bg-neutral-800 border-l border-neutral-700 shadow-xl flex flex-col">
+      <div className="px-4 py-3 border-b border-neutral-700 flex items-center justify-between">
+        <span className="text-sm font-semibold text-white">Remote Files</span>
+        <div className="flex items-center gap-3">
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={selected === null}
+            className="text-neutral-400 hover:text-white disabled:opacity-40"
+            title="Upload into this folder"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => loadDirectory()}
+            disabled={selected === null}
+            className="text-neutral-400 hover:text-white disabled:opacity-40"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {filesystems.length > 1 && (
+        <div className="px-4 py-2 border-b border-neutral-700">
+          <select
+            value={selected ?? ''}
+            onChange={(event) => {
+              setSelected(Number(event.target.value));
+              setPath(ROOT_PATH);
+            }}
+            className="w-full bg-neutral-700 text-white text-sm rounded px-2 py-1"
+          >
+            {filesystems.map((filesystem) => (
+              <option key={filesystem.index} value={filesystem.index}>
+                {filesystem.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {selected !== null && (
+        <nav className="px-4 py-2 border-b border-neutral-700 flex items-center flex-wrap gap-1 text-xs">
+          <button
+            onClick={() => setPath(ROOT_PATH)}
+            className="flex items-center gap-1 text-neutral-300 hover:text-white"
+            title="Root"
+          >
+            <HardDrive className="w-3 h-3" />
+            {filesystems.find((filesystem) => filesystem.index === selected)?.name}
+          </button>
+          {getBreadcrumbs(path).map((crumb) => (
+            <React.Fragment key={crumb.path}>
+              <ChevronRight className="w-3 h-3 text-neutral-500" />
+              <button onClick={() => setPath(crumb.path)} className="text-neutral-300 hover:text-white truncate max-w-[8rem]">
+                {crumb.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {filesystems.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-neutral-400 text-center">
+            No shared drives. Enable drive redirection or SFTP for this connection.
+          </p>
+        ) : error ? (
+          <p className="px-4 py-6 text-sm text-red-400 text-center">{error}</p>
+        ) : entries.length === 0 && !loading ? (
+          <p className="px-4 py-6 text-sm text-neutral-400 text-center">This folder is empty</p>
+        ) : (
+          <ul>
+            {entries.map((entry) => (
+              <li key={entry.path}>
+                <button
+                  onClick={() => handleEntryClick(entry)}
+                  className="w-full px-4 py-2 flex items-center gap-2 text-left text-sm text-white hover:bg-neutral-700"
+                  title={entry.type === 'directory' ? `Open ${entry.name}` : `Download ${entry.name}`}
+                >
+                  {entry.type === 'directory' ? (
+                    <Folder className="w-4 h-4 text-red-400 shrink-0" />
+                  ) : (
+                    <FileIcon className="w-4 h-4 text-neutral-400 shrink-0" />
+                  )}
+                  <span className="truncate">{entry.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
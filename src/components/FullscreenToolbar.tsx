@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Minimize, Crosshair } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { FullscreenState } from '../lib/guacamole/FullscreenManager';
+
+interface FullscreenToolbarProps {
+  connection: GuacamoleConnection;
+  state: FullscreenState;
+}
+
+const HINT_DURATION_MS = 4000;
+
+/**
+ * Shown briefly on entering fullscreen, then revealed by moving the pointer
+ * to the top edge of the screen.
+ */
+export const FullscreenToolbar: React.FC<FullscreenToolbarProps> = ({ connection, state }) => {
+  const [showHint, setShowHint] = useState(true);
+  const [hovered, setHovered] = useState(false);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setShowHint(false), HINT_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, []);
+
+  const visible = (showHint || hovered) && !state.pointerLocked;
+
+  return (
+    // While hidden only a thin strip at the top edge catches the pointer,
+    // so the remote desktop stays clickable underneath
+    <div
+      className={`absolute top-0 inset-x-0 z-40 flex justify-center ${visible ? 'pt-2' : 'h-1'}`}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      {visible && (
+        <div className="flex items-center gap-3 bg-neutral-800/95 border border-neutral-700 rounded-lg shadow-xl px-4 py-2 text-sm text-white">
+          <span className="text-neutral-300">
+            {state.keyboardLocked ? 'Hold Esc to exit full screen' : 'Press Esc to exit full screen'}
+          </span>
+          <button
+            onClick={() => connection.setPointerLock(true)}
+            className="flex items-center gap-1 bg-neutral-700 hover:bg-neutral-600 rounded px-2 py-1"
+            title="Capture the mouse for CAD and 3D apps. Press Esc to release it."
+          >
+            <Crosshair className="w-4 h-4" />
+            Lock pointer
+          </button>
+          <button
+            onClick={() => connection.toggleFullscreen()}
+            className="flex items-center gap-1 bg-red-600 hover:bg-red-700 rounded px-2 py-1"
+          >
+            <Minimize className="w-4 h-4" />
+            Exit
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
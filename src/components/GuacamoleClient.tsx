@@ -1,71 +1,192 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Monitor, LogOut } from 'lucide-react';
-import { GuacamoleConnection, ConnectionState } from '../lib/guacamole/GuacamoleConnection';
+import { Monitor, LogOut, Upload, FolderOpen, Keyboard, Maximize, Type, ClipboardList, Download } from 'lucide-react';
+import {
+  GuacamoleConnection,
+  ConnectionState,
+  TunnelEndpoint,
+  TunnelTransport,
+} from '../lib/guacamole/GuacamoleConnection';
 import { JWTAuthManager } from '../lib/auth/JWTAuthManager';
+import { TokenRefresher } from '../lib/auth/TokenRefresh';
+import { TokenSource } from '../lib/auth/TokenSources';
 import { ConnectionStatus } from './ConnectionStatus';
-import { logger, LogLevel } from '../lib/utils/logger';
+import { ConnectionErrorPanel } from './ConnectionErrorPanel';
+import { ConnectionQualityIndicator } from './ConnectionQualityIndicator';
+import { DebugHud } from './DebugHud';
+import { TransferPanel } from './TransferPanel';
+import { AudioControls } from './AudioControls';
+import { TouchModeToggle } from './TouchModeToggle';
+import { OnScreenKeyboard } from './OnScreenKeyboard';
+import { KeyComboMenu } from './KeyComboMenu';
+import { ScaleControls } from './ScaleControls';
+import { ResolutionMenu } from './ResolutionMenu';
+import { FullscreenToolbar } from './FullscreenToolbar';
+import { FileBrowserPanel } from './FileBrowserPanel';
+import { PasteTypingPanel } from './PasteTypingPanel';
+import { NoticeToast } from './NoticeToast';
+import { ClipboardPanel } from './ClipboardPanel';
+import { TokenExpiryBanner } from './TokenExpiryBanner';
+import { GuacamoleError, GuacamoleErrorCategory } from '../lib/guacamole/GuacamoleError';
+import { ReconnectProgress } from '../lib/guacamole/ReconnectManager';
+import { FullscreenManager, FullscreenState } from '../lib/guacamole/FullscreenManager';
+import { ClipboardPolicy } from '../lib/guacamole/ClipboardPolicy';
+import { createDiagnosticsBundle, downloadDiagnosticsBundle } from '../lib/guacamole/DiagnosticsBundle';
+import { CLIENT_VERSION } from '../lib/version';
+import { EmbedBridge } from '../lib/embed/EmbedBridge';
+import { createLogger, LogLevel } from '../lib/utils/logger';
+import { Unsubscribe } from '../lib/utils/EventEmitter';
+
+const logger = createLogger('GuacamoleClient');
 
 interface GuacamoleClientProps {
   websocketURL: string;
+  httpTunnelURL?: string;
   debug?: boolean;
+  autoReconnect?: boolean;
+  reconnectDelay?: number;
+  maxReconnectAttempts?: number;
+  clipboardPolicy?: Partial<ClipboardPolicy>;
+  tokenRefresher?: TokenRefresher;
+  tokenSources?: TokenSource[];
+  // Origin of the embedding page allowed to control the client, see EmbedBridge
+  embedOrigin?: string;
 }
 
 export const GuacamoleClient: React.FC<GuacamoleClientProps> = ({
   websocketURL,
+  httpTunnelURL,
   debug = false,
+  autoReconnect = true,
+  reconnectDelay = 1000,
+  maxReconnectAttempts = 5,
+  clipboardPolicy,
+  tokenRefresher,
+  tokenSources,
+  embedOrigin,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const connectionRef = useRef<GuacamoleConnection | null>(null);
   const authManagerRef = useRef<JWTAuthManager | null>(null);
 
+  // Mirrors connectionRef for children that subscribe to connection events
+  const [connection, setConnection] = useState<GuacamoleConnection | null>(null);
+  const [authLoaded, setAuthLoaded] = useState(false);
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.IDLE);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<GuacamoleError | null>(null);
+  const [reconnectProgress, setReconnectProgress] = useState<ReconnectProgress | null>(null);
+  const [transport, setTransport] = useState<TunnelTransport | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [hasFilesystems, setHasFilesystems] = useState(false);
+  const [showFileBrowser, setShowFileBrowser] = useState(false);
+  const [showKeyboard, setShowKeyboard] = useState(false);
+  const [showTyping, setShowTyping] = useState(false);
+  const [showClipboard, setShowClipboard] = useState(false);
+  const [fullscreen, setFullscreen] = useState<FullscreenState | null>(null);
+  const [embedBridge, setEmbedBridge] = useState<EmbedBridge | null>(null);
+
+  // Touch controls only matter on tablets and touch laptops
+  const isTouchDevice = typeof navigator !== 'undefined' && navigator.maxTouchPoints > 0;
 
 
-    // Initialize auth manager once
+    // Initialize auth manager; token sources may wait on the network or the parent page
   useEffect(() => {
-    if (!authManagerRef.current) {
-      authManagerRef.current = new JWTAuthManager();
-    }
-  }, []); // Empty dependency array - run once on mount
+    let mounted = true;
+    const authManager = new JWTAuthManager(tokenSources && { sources: tokenSources });
+    authManagerRef.current = authManager;
+
+    authManager.load().then(() => {
+      if (mounted) {
+        setAuthLoaded(true);
+      }
+    });
+
+    return () => {
+      mounted = false;
+      authManager.destroy();
+      authManagerRef.current = null;
+      setAuthLoaded(false);
+    };
+  }, [tokenSources]);
+
+  // Also re-applied once loaded, since changing the sources replaces the manager
+  useEffect(() => {
+    authManagerRef.current?.setRefresher(tokenRefresher ?? null);
+  }, [tokenRefresher, authLoaded]);
 
   useEffect(() => {
     if (debug) {
       logger.setLevel(LogLevel.DEBUG);
     }
 
+    if (!authLoaded) {
+      return;
+    }
+
     
-    if (!authManagerRef.current.isValid()) {
-      setError('Invalid or missing JWT token. Please provide a valid token in the URL.');
+    // An expired token is still worth a connection attempt when it can be refreshed
+    const validation = authManagerRef.current!.validate();
+    if (!validation.valid && !(validation.reason === 'expired' && authManagerRef.current!.canRefresh())) {
+      setError(new GuacamoleError(GuacamoleErrorCategory.AUTH_EXPIRED, validation.message));
       setConnectionState(ConnectionState.ERROR);
       return;
     }
 
     let mounted = true;
     let connectionTimeout: NodeJS.Timeout;
+    const subscriptions: Unsubscribe[] = [];
 
     const initializeConnection = () => {
       if (!mounted) return;
 
+      // WebSocket first, HTTP only for clients behind proxies that strip Upgrade
+      const tunnels: TunnelEndpoint[] = [{ type: 'websocket', url: websocketURL }];
+      if (httpTunnelURL) {
+        tunnels.push({ type: 'http', url: httpTunnelURL });
+      }
+
       connectionRef.current = new GuacamoleConnection(
-        { websocketURL },
+        { websocketURL, tunnels, autoReconnect, reconnectDelay, maxReconnectAttempts, clipboardPolicy },
         authManagerRef.current!
       );
+      setConnection(connectionRef.current);
 
-      connectionRef.current.onStateChange((state) => {
+      subscriptions.push(connectionRef.current.onStateChange((state, activeTransport) => {
         if (mounted) {
           setConnectionState(state);
+          setTransport(activeTransport);
           if (state === ConnectionState.CONNECTED) {
-            setError('');
+            setError(null);
+          }
+          if (state !== ConnectionState.RECONNECTING) {
+            setReconnectProgress(null);
           }
         }
-      });
+      }));
 
-      connectionRef.current.onError((errorMessage) => {
+      subscriptions.push(connectionRef.current.onReconnecting((progress) => {
         if (mounted) {
-          setError(errorMessage);
+          setReconnectProgress(progress);
         }
-      });
+      }));
+
+      subscriptions.push(connectionRef.current.onError((connectionError) => {
+        if (mounted) {
+          setError(connectionError);
+        }
+      }));
+
+      subscriptions.push(connectionRef.current.on('fullscreen', (state) => {
+        if (mounted) {
+          setFullscreen(state);
+        }
+      }));
+
+      subscriptions.push(connectionRef.current.on('filesystems', (filesystems) => {
+        if (mounted) {
+          setHasFilesystems(filesystems.length > 0);
+        }
+      }));
 
       // Wait for DOM to be ready
       connectionTimeout = setTimeout(() => {
@@ -81,6 +202,7 @@ export const GuacamoleClient: React.FC<GuacamoleClientProps> = ({
     return () => {
       mounted = false;
       clearTimeout(connectionTimeout);
+      subscriptions.forEach((unsubscribe) => unsubscribe());
       
       // Only disconnect if we're not in an error state and connection exists
       if (connectionRef.current && connectionRef.current.getState() !== ConnectionState.ERROR) {
@@ -88,9 +210,46 @@ export const GuacamoleClient: React.FC<GuacamoleClientProps> = ({
         connectionRef.current.disconnect();
       }
       connectionRef.current = null;
+      setConnection(null);
+    };
+  }, [websocketURL, httpTunnelURL, autoReconnect, reconnectDelay, maxReconnectAttempts, clipboardPolicy, authLoaded]); // Not debug: changing the log level must not reconnect
+
+
+  useEffect(() => {
+    connection?.setDebugHudVisible(debug);
+  }, [connection, debug]);
+
+  // Outlives connections, so the parent sees every state change in order
+  useEffect(() => {
+    if (!embedOrigin || !EmbedBridge.isEmbedded()) {
+      return;
+    }
+
+    const bridge = new EmbedBridge(embedOrigin);
+    bridge.onConnectRequest(() => {
+      if (connectionRef.current && containerRef.current) {
+        setError(null);
+        connectionRef.current.connect(containerRef.current);
+      }
+    });
+    setEmbedBridge(bridge);
+
+    return () => {
+      bridge.destroy();
+      setEmbedBridge(null);
     };
-  }, [websocketURL]); // Only depend on websocketURL, not debug
+  }, [embedOrigin]);
+
+  useEffect(() => {
+    embedBridge?.setConnection(connection);
+  }, [embedBridge, connection]);
 
+  // A token rejected up front never reaches a connection
+  useEffect(() => {
+    if (embedBridge && error && !connection) {
+      embedBridge.reportError(error);
+    }
+  }, [embedBridge, error, connection]);
 
   const handleDisconnect = () => {
     if (connectionRef.current) {
@@ -98,87 +257,268 @@ export const GuacamoleClient: React.FC<GuacamoleClientProps> = ({
     }
   };
 
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      connectionRef.current?.uploadFiles(files);
+    }
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>) => {
+    if (connectionState !== ConnectionState.CONNECTED || !event.dataTransfer.types.includes('Files')) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLElement>) => {
+    // Ignore leave events fired when moving between child elements
+    if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) {
+      connectionRef.current?.uploadFiles(files);
+    }
+  };
+
+  const handleDownloadDiagnostics = () => {
+    // Without a connection the token was rejected up front; that error is all there is
+    const bundle =
+      connectionRef.current?.getDiagnosticsBundle() ??
+      createDiagnosticsBundle({
+        state: connectionState,
+        lastError: error && { code: error.getCodeLabel(), category: error.category, detail: error.message },
+      });
+
+    downloadDiagnosticsBundle(bundle);
+    logger.info('Diagnostics bundle downloaded');
+  };
+
+  const handleRetry = () => {
+    if (connectionRef.current && containerRef.current) {
+      setError(null);
+      connectionRef.current.connect(containerRef.current);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-neutral-900 flex flex-col">
-      <header className="bg-neutral-800 border-b border-neutral-700 shadow-lg">
-        <div className="px-6 py-4 flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <div className="w-10 h-10 bg-red-600 rounded flex items-center justify-center">
-              <Monitor className="w-6 h-6 text-white" />
-            </div>
-            <div>
-              <h1 className="text-xl font-bold text-white" style={{ fontFamily: 'Red Hat Display, sans-serif' }}>
-                Red Hat Remote Desktop
-              </h1>
-              <p className="text-sm text-neutral-400">Powered by Red Hat</p>
+      {!fullscreen?.active && (
+        <header className="bg-neutral-800 border-b border-neutral-700 shadow-lg">
+          <div className="px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 bg-red-600 rounded flex items-center justify-center">
+                <Monitor className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white" style={{ fontFamily: 'Red Hat Display, sans-serif' }}>
+                  Red Hat Remote Desktop
+                </h1>
+                <p className="text-sm text-neutral-400">Powered by Red Hat</p>
+              </div>
             </div>
-          </div>
 
-          <div className="flex items-center gap-4">
-            <ConnectionStatus state={connectionState} error={error} />
-
-            {connectionState === ConnectionState.CONNECTED && (
-              <button
-                onClick={handleDisconnect}
-                className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
-              >
-                <LogOut className="w-4 h-4" />
-                Disconnect
-              </button>
-            )}
+            <div className="flex items-center gap-4">
+              {connection && connectionState === ConnectionState.CONNECTED && (
+                <ConnectionQualityIndicator connection={connection} />
+              )}
+
+              {connection && connectionState === ConnectionState.CONNECTED && (
+                <AudioControls connection={connection} />
+              )}
+
+              <ConnectionStatus
+                state={connectionState}
+                error={error}
+                reconnectProgress={reconnectProgress}
+                transport={transport}
+              />
+
+              {connectionState === ConnectionState.CONNECTED && (
+                <>
+                  {FullscreenManager.isSupported() && (
+                    <button
+                      onClick={() => connection?.toggleFullscreen()}
+                      className="bg-neutral-700 hover:bg-neutral-600 text-white p-2 rounded-lg transition-colors"
+                      title="Full screen"
+                    >
+                      <Maximize className="w-5 h-5" />
+                    </button>
+                  )}
+                  {connection && <ScaleControls connection={connection} />}
+                  {connection && <ResolutionMenu connection={connection} />}
+                  {connection && <KeyComboMenu connection={connection} />}
+                  {connection && isTouchDevice && <TouchModeToggle connection={connection} />}
+                  <button
+                    onClick={() => setShowKeyboard((visible) => !visible)}
+                    className={`${showKeyboard ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium`}
+                    title="Show the on-screen keyboard"
+                  >
+                    <Keyboard className="w-4 h-4" />
+                    Keyboard
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowClipboard((visible) => !visible);
+                      setShowFileBrowser(false);
+                    }}
+                    className={`${showClipboard ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium`}
+                    title="View clipboard history and send text to the remote clipboard"
+                  >
+                    <ClipboardList className="w-4 h-4" />
+                    Clipboard
+                  </button>
+                  <button
+                    onClick={() => setShowTyping((visible) => !visible)}
+                    className={`${showTyping ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium`}
+                    title="Type text as keystrokes, for consoles without clipboard support"
+                  >
+                    <Type className="w-4 h-4" />
+                    Type
+                  </button>
+                  <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="bg-neutral-700 hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+                    title="Upload files to the remote desktop"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Upload
+                  </button>
+                  {hasFilesystems && (
+                    <button
+                      onClick={() => {
+                        setShowFileBrowser((visible) => !visible);
+                        setShowClipboard(false);
+                      }}
+                      className={`${showFileBrowser ? 'bg-neutral-600' : 'bg-neutral-700'} hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium`}
+                      title="Browse shared drives on the remote desktop"
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                      Files
+                    </button>
+                  )}
+                </>
+              )}
+
+              {(connection || connectionState === ConnectionState.ERROR) && (
+                <button
+                  onClick={handleDownloadDiagnostics}
+                  className="bg-neutral-700 hover:bg-neutral-600 text-white p-2 rounded-lg transition-colors"
+                  title="Download diagnostics for a support ticket"
+                >
+                  <Download className="w-5 h-5" />
+                </button>
+              )}
+
+              {(connectionState === ConnectionState.CONNECTED ||
+                connectionState === ConnectionState.RECONNECTING) && (
+                <button
+                  onClick={handleDisconnect}
+                  className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+                >
+                  <LogOut className="w-4 h-4" />
+                  Disconnect
+                </button>
+              )}
+            </div>
           </div>
-        </div>
-      </header>
+        </header>
+      )}
 
-      <main className="flex-1 relative overflow-hidden">
+      <main
+        className="flex-1 relative overflow-hidden"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
         {connectionState === ConnectionState.ERROR && (
           <div className="absolute inset-0 flex items-center justify-center bg-neutral-900 z-10">
             <div className="max-w-md w-full mx-auto p-6">
-              <div className="bg-neutral-800 rounded-lg shadow-xl p-8 text-center">
-                <div className="w-16 h-16 bg-red-600 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <Monitor className="w-8 h-8 text-white" />
-                </div>
-                <h2 className="text-2xl font-bold text-white mb-2">Connection Failed</h2>
-                <p className="text-neutral-400 mb-6">{error}</p>
-                <button
-                  onClick={() => window.location.reload()}
-                  className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
-                >
-                  Retry Connection
-                </button>
-              </div>
+              <ConnectionErrorPanel
+                error={error ?? new GuacamoleError(GuacamoleErrorCategory.UNKNOWN, 'Connection failed')}
+                onRetry={handleRetry}
+                onDownloadDiagnostics={handleDownloadDiagnostics}
+              />
             </div>
           </div>
         )}
 
         {(connectionState === ConnectionState.IDLE ||
-          connectionState === ConnectionState.CONNECTING) && (
+          connectionState === ConnectionState.CONNECTING ||
+          connectionState === ConnectionState.RECONNECTING) && (
           <div className="absolute inset-0 flex items-center justify-center bg-neutral-900">
             <div className="text-center">
               <div className="w-16 h-16 border-4 border-red-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
               <p className="text-white text-lg font-medium">
                 {connectionState === ConnectionState.IDLE
                   ? 'Initializing...'
-                  : 'Connecting to remote desktop...'}
+                  : connectionState === ConnectionState.RECONNECTING
+                    ? 'Connection lost, reconnecting...'
+                    : 'Connecting to remote desktop...'}
+              </p>
+              <p className="text-neutral-400 text-sm mt-2">
+                {connectionState === ConnectionState.RECONNECTING && reconnectProgress
+                  ? `Attempt ${reconnectProgress.attempt} of ${reconnectProgress.maxAttempts}`
+                  : 'Please wait'}
               </p>
-              <p className="text-neutral-400 text-sm mt-2">Please wait</p>
+            </div>
+          </div>
+        )}
+
+        {connection && fullscreen?.active && <FullscreenToolbar connection={connection} state={fullscreen} />}
+        {connection && <DebugHud connection={connection} />}
+        {connection && showFileBrowser && hasFilesystems && connectionState === ConnectionState.CONNECTED && (
+          <FileBrowserPanel connection={connection} onClose={() => setShowFileBrowser(false)} />
+        )}
+        {connection && showClipboard && connectionState === ConnectionState.CONNECTED && (
+          <ClipboardPanel connection={connection} onClose={() => setShowClipboard(false)} />
+        )}
+        {connection && <TransferPanel connection={connection} />}
+        {connection && <NoticeToast connection={connection} />}
+        {connection && connectionState === ConnectionState.CONNECTED && <TokenExpiryBanner connection={connection} />}
+        {connection && showKeyboard && connectionState === ConnectionState.CONNECTED && (
+          <OnScreenKeyboard connection={connection} onClose={() => setShowKeyboard(false)} />
+        )}
+        {connection && showTyping && connectionState === ConnectionState.CONNECTED && (
+          <PasteTypingPanel connection={connection} onClose={() => setShowTyping(false)} />
+        )}
+
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 border-4 border-dashed border-red-600 pointer-events-none">
+            <div className="text-center text-white">
+              <Upload className="w-12 h-12 mx-auto mb-3" />
+              <p className="text-lg font-medium">Drop files to upload to the remote desktop</p>
             </div>
           </div>
         )}
 
         <div
           ref={containerRef}
-          className="h-full overflow-hidden flex items-center justify-center"
+          className="relative h-full overflow-hidden flex items-center justify-center"
           style={{ cursor: 'none' }}
         />
       </main>
 
-      <footer className="bg-neutral-800 border-t border-neutral-700 px-6 py-3">
-        <div className="flex items-center justify-between text-sm text-neutral-400">
-          <p>Red Hat Enterprise Remote Desktop Solution</p>
-          <p>Version 1.0.0</p>
-        </div>
-      </footer>
+      {!fullscreen?.active && (
+        <footer className="bg-neutral-800 border-t border-neutral-700 px-6 py-3">
+          <div className="flex items-center justify-between text-sm text-neutral-400">
+            <p>Red Hat Enterprise Remote Desktop Solution</p>
+            <p>Version {CLIENT_VERSION}</p>
+          </div>
+        </footer>
+      )}
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Command, ChevronDown, Trash2, Plus } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { KeyCombo, parseKeyCombo } from '../lib/guacamole/KeyComboManager';
+
+interface KeyComboMenuProps {
+  connection: GuacamoleConnection;
+}
+
+export const KeyComboMenu: React.FC<KeyComboMenuProps> = ({ connection }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [combos, setCombos] = useState<KeyCombo[]>(connection.getKeyCombos());
+  const [open, setOpen] = useState(false);
+  const [keysText, setKeysText] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return connection.on('keycombos', setCombos);
+  }, [connection]);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+
+    const onPointerDown = (event: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const handleSend = (combo: KeyCombo) => {
+    connection.sendKeyCombo(combo.id);
+    setOpen(false);
+  };
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const keysyms = parseKeyCombo(keysText);
+    if (!keysyms) {
+      setFormError('Use key names joined by +, e.g. Ctrl+Shift+Esc');
+      return;
+    }
+
+    const label = keysText
+      .split('+')
+      .map((part) => part.trim())
+      .join('+');
+
+    connection.addKeyCombo(label, keysyms);
+    setKeysText('');
+    setFormError(null);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="bg-neutral-700 hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+        title="Send key combinations the browser would otherwise intercept"
+      >
+        <Command className="w-4 h-4" />
+        Keys
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 z-40 w-72 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl">
+          <ul className="py-1 max-h-80 overflow-y-auto">
+            {combos.map((combo) => (
+              <li key={combo.id} className="flex items-center hover:bg-neutral-700">
+                <button
+                  onClick={() => handleSend(combo)}
+                  className="flex-1 text-left px-4 py-2 text-sm text-white"
+                >
+                  {combo.label}
+                </button>
+                {combo.custom && (
+                  <button
+                    onClick={() => connection.removeKeyCombo(combo.id)}
+                    className="px-3 text-neutral-400 hover:text-red-400"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAdd} className="border-t border-neutral-700 p-3">
+            <div className="flex gap-2">
+              <input
+                value={keysText}
+                onChange={(event) => setKeysText(event.target.value)}
+                placeholder="Ctrl+Shift+Esc"
+                className="flex-1 min-w-0 bg-neutral-700 text-white text-sm rounded px-2 py-1 placeholder-neutral-500"
+              />
+              <button
+                type="submit"
+                disabled={keysText.trim() === ''}
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white rounded px-2"
+                title="Save combination"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+            {formError && <p className="mt-2 text-xs text-red-400">{formError}</p>}
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { MonitorX, ShieldAlert, X } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+
+interface NoticeToastProps {
+  connection: GuacamoleConnection;
+}
+
+interface Notice {
+  icon: typeof ShieldAlert;
+  tone: string;
+  message: string;
+}
+
+const NOTICE_DURATION_MS = 5000;
+
+/**
+ * Tells the user when the session quietly did something other than asked,
+ * such as a clipboard policy blocking a copy, without taking focus away from
+ * the remote desktop.
+ */
+export const NoticeToast: React.FC<NoticeToastProps> = ({ connection }) => {
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  useEffect(() => {
+    const unsubscribeClipboard = connection.on('clipboardnotice', (clipboardNotice) => {
+      setNotice({
+        icon: ShieldAlert,
+        tone: clipboardNotice.action === 'blocked' ? 'text-red-400' : 'text-yellow-400',
+        message: clipboardNotice.message,
+      });
+    });
+    const unsubscribeResolution = connection.on('resolutionnotice', (message) => {
+      setNotice({ icon: MonitorX, tone: 'text-yellow-400', message });
+    });
+
+    return () => {
+      unsubscribeClipboard();
+      unsubscribeResolution();
+    };
+  }, [connection]);
+
+  useEffect(() => {
+    if (!notice) return;
+
+    const timer = window.setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
+
+  if (!notice) {
+    return null;
+  }
+
+  const Icon = notice.icon;
+
+  return (
+    <div className="absolute bottom-4 left-4 z-30 max-w-sm flex items-start gap-2 bg-neutral-800/95 border border-neutral-700 rounded-lg shadow-xl px-3 py-2 text-sm">
+      <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${notice.tone}`} />
+      <span className="text-neutral-200 flex-1">{notice.message}</span>
+      <button onClick={() => setNotice(null)} className="text-neutral-400 hover:text-white" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
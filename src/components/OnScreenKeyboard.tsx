@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { OnScreenKeyboardState, resolveCharacter } from '../lib/guacamole/OnScreenKeyboardManager';
+import { KeyDefinition, KeyboardLayoutId, KEYBOARD_LAYOUTS } from '../lib/guacamole/OnScreenKeyboardLayouts';
+
+interface OnScreenKeyboardProps {
+  connection: GuacamoleConnection;
+  onClose: () => void;
+}
+
+export const OnScreenKeyboard: React.FC<OnScreenKeyboardProps> = ({ connection, onClose }) => {
+  const [state, setState] = useState<OnScreenKeyboardState>(connection.getOnScreenKeyboardState());
+
+  useEffect(() => {
+    return connection.on('osk', setState);
+  }, [connection]);
+
+  const layout = KEYBOARD_LAYOUTS[state.layout];
+
+  const getKeyClass = (key: KeyDefinition): string => {
+    const mode = key.modifier ? state.modifiers[key.modifier] : key.capsLock && state.capsLock ? 'locked' : 'off';
+
+    if (mode === 'locked') return 'bg-red-600 hover:bg-red-700';
+    if (mode === 'latched') return 'bg-red-600/60 hover:bg-red-600/80';
+    return 'bg-neutral-700 hover:bg-neutral-600 active:bg-neutral-500';
+  };
+
+  return (
+    <div className="absolute bottom-0 inset-x-0 z-20 bg-neutral-800/95 border-t border-neutral-700 shadow-xl p-2 select-none">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <select
+          value={state.layout}
+          onChange={(event) => connection.setOnScreenKeyboardLayout(event.target.value as KeyboardLayoutId)}
+          className="bg-neutral-700 text-white text-sm rounded px-2 py-1"
+        >
+          {Object.values(KEYBOARD_LAYOUTS).map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={onClose} className="text-neutral-400 hover:text-white" title="Hide keyboard">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        {layout.rows.map((row, rowIndex) => (
+          <div key={rowIndex} className="flex gap-1">
+            {row.map((key) => (
+              <button
+                key={key.id}
+                // Keep focus (and Guacamole.Keyboard) on the document
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => connection.pressOnScreenKey(key)}
+                className={`${getKeyClass(key)} text-white text-sm rounded h-10 min-w-0 px-1 truncate transition-colors`}
+                style={{ flex: key.width ?? 1 }}
+                title={key.modifier ? 'Tap to hold for the next key, tap twice to lock' : undefined}
+              >
+                {resolveCharacter(key, state) ?? key.label}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
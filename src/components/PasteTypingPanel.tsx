@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardPaste, Pause, Play, Square, X } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { TypingProgress } from '../lib/guacamole/PasteTypingManager';
+import { createLogger } from '../lib/utils/logger';
+
+const logger = createLogger('PasteTypingPanel');
+
+interface PasteTypingPanelProps {
+  connection: GuacamoleConnection;
+  onClose: () => void;
+}
+
+const SPEEDS = [
+  { label: 'Fast', charDelayMs: 10 },
+  { label: 'Normal', charDelayMs: 30 },
+  { label: 'Slow', charDelayMs: 100 },
+];
+
+/**
+ * Types local text into the remote machine key by key, for consoles that
+ * have no clipboard channel.
+ */
+export const PasteTypingPanel: React.FC<PasteTypingPanelProps> = ({ connection, onClose }) => {
+  const [text, setText] = useState('');
+  const [charDelayMs, setCharDelayMs] = useState(SPEEDS[1].charDelayMs);
+  const [progress, setProgress] = useState<TypingProgress>(connection.getTypingProgress());
+  const [clipboardError, setClipboardError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return connection.on('typing', setProgress);
+  }, [connection]);
+
+  const handleReadClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+      setClipboardError(null);
+    } catch (error) {
+      logger.warn('Failed to read local clipboard', error);
+      setClipboardError('Clipboard access was denied. Paste the text here instead.');
+    }
+  };
+
+  const isIdle = progress.status === 'idle';
+  const percent = progress.total ? Math.round((progress.typed / progress.total) * 100) : 0;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 w-96 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl">
+      <div className="px-4 py-3 border-b border-neutral-700 flex items-center justify-between">
+        <span className="text-sm font-semibold text-white">Type Text</span>
+        <button onClick={onClose} className="text-neutral-400 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          disabled={!isIdle}
+          rows={5}
+          placeholder="Text to type on the remote machine"
+          className="w-full bg-neutral-700 text-white text-sm font-mono rounded px-2 py-1 placeholder-neutral-500 resize-none disabled:opacity-60"
+        />
+        {clipboardError && <p className="text-xs text-red-400">{clipboardError}</p>}
+
+        {isIdle ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleReadClipboard}
+              className="flex items-center gap-1 bg-neutral-700 hover:bg-neutral-600 text-white text-sm rounded px-2 py-1"
+              title="Load the local clipboard"
+            >
+              <ClipboardPaste className="w-4 h-4" />
+              Clipboard
+            </button>
+            <select
+              value={charDelayMs}
+              onChange={(event) => setCharDelayMs(Number(event.target.value))}
+              className="bg-neutral-700 text-white text-sm rounded px-2 py-1"
+              title="Slower speeds help consoles that drop keys"
+            >
+              {SPEEDS.map((speed) => (
+                <option key={speed.label} value={speed.charDelayMs}>
+                  {speed.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => connection.typeText(text, { charDelayMs })}
+              disabled={text === ''}
+              className="ml-auto bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white text-sm rounded px-3 py-1 font-medium"
+            >
+              Type
+            </button>
+          </div>
+        ) : (
+          <div>
+            <div className="h-1.5 bg-neutral-700 rounded-full overflow-hidden">
+              <div className="h-full bg-red-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="mt-2 flex items-center gap-2">
+              <span className="text-xs text-neutral-300 flex-1">
+                {progress.status === 'paused' ? 'Paused' : 'Typing'} {progress.typed} of {progress.total}
+              </span>
+              {progress.status === 'paused' ? (
+                <button
+                  onClick={() => connection.resumeTyping()}
+                  className="text-neutral-400 hover:text-white"
+                  title="Resume"
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => connection.pauseTyping()}
+                  className="text-neutral-400 hover:text-white"
+                  title="Pause"
+                >
+                  <Pause className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => connection.cancelTyping()}
+                className="text-neutral-400 hover:text-red-400"
+                title="Cancel"
+              >
+                <Square className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Monitor, ChevronDown, AlertTriangle, Check } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { RESOLUTION_PRESETS, ResolutionState } from '../lib/guacamole/ResolutionManager';
+
+interface ResolutionMenuProps {
+  connection: GuacamoleConnection;
+}
+
+const formatSize = (width: number | null, height: number | null): string =>
+  width !== null && height !== null ? `${width}×${height}` : '';
+
+export const ResolutionMenu: React.FC<ResolutionMenuProps> = ({ connection }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [resolution, setResolution] = useState<ResolutionState>(connection.getResolutionState());
+  const [open, setOpen] = useState(false);
+  const [customWidth, setCustomWidth] = useState('');
+  const [customHeight, setCustomHeight] = useState('');
+
+  useEffect(() => {
+    return connection.on('resolution', setResolution);
+  }, [connection]);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+
+    const onPointerDown = (event: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const handleCustom = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const width = parseInt(customWidth, 10);
+    const height = parseInt(customHeight, 10);
+    if (width > 0 && height > 0) {
+      connection.setResolutionMode('fixed', { width, height });
+      setOpen(false);
+    }
+  };
+
+  const label =
+    resolution.mode === 'dynamic'
+      ? 'Auto'
+      : resolution.mode === 'lock'
+        ? `Locked ${formatSize(resolution.width, resolution.height)}`
+        : formatSize(resolution.width, resolution.height);
+
+  const isFixed = (width: number, height: number) =>
+    resolution.mode === 'fixed' && resolution.width === width && resolution.height === height;
+
+  const itemClass = 'w-full flex items-center justify-between text-left px-4 py-2 text-sm text-white hover:bg-neutral-700';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="bg-neutral-700 hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+        title={
+          resolution.honored === false
+            ? 'The remote desktop ignored the last resolution request and is scaled instead'
+            : 'Remote desktop resolution'
+        }
+      >
+        {resolution.honored === false ? (
+          <AlertTriangle className="w-4 h-4 text-yellow-400" />
+        ) : (
+          <Monitor className="w-4 h-4" />
+        )}
+        {label}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 z-40 w-64 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl">
+          <ul className="py-1">
+            <li>
+              <button onClick={() => connection.setResolutionMode('dynamic')} className={itemClass}>
+                Match window
+                {resolution.mode === 'dynamic' && <Check className="w-4 h-4" />}
+              </button>
+            </li>
+            <li>
+              <button onClick={() => connection.setResolutionMode('lock')} className={itemClass}>
+                Lock to current size
+                {resolution.mode === 'lock' && <Check className="w-4 h-4" />}
+              </button>
+            </li>
+            <li className="border-t border-neutral-700 my-1" />
+            {RESOLUTION_PRESETS.map(({ width, height }) => (
+              <li key={`${width}x${height}`}>
+                <button onClick={() => connection.setResolutionMode('fixed', { width, height })} className={itemClass}>
+                  {formatSize(width, height)}
+                  {isFixed(width, height) && <Check className="w-4 h-4" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleCustom} className="border-t border-neutral-700 p-3 flex items-center gap-2">
+            <input
+              value={customWidth}
+              onChange={(event) => setCustomWidth(event.target.value)}
+              inputMode="numeric"
+              placeholder="Width"
+              className="w-20 bg-neutral-700 text-white text-sm rounded px-2 py-1 placeholder-neutral-500"
+            />
+            <span className="text-neutral-400">×</span>
+            <input
+              value={customHeight}
+              onChange={(event) => setCustomHeight(event.target.value)}
+              inputMode="numeric"
+              placeholder="Height"
+              className="w-20 bg-neutral-700 text-white text-sm rounded px-2 py-1 placeholder-neutral-500"
+            />
+            <button
+              type="submit"
+              disabled={!(parseInt(customWidth, 10) > 0 && parseInt(customHeight, 10) > 0)}
+              className="ml-auto bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white text-sm rounded px-2 py-1"
+            >
+              Set
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { ScaleMode, ScaleState } from '../lib/guacamole/DisplayScaleManager';
+
+interface ScaleControlsProps {
+  connection: GuacamoleConnection;
+}
+
+const MODES: Array<{ mode: ScaleMode; label: string }> = [
+  { mode: 'fit', label: 'Fit' },
+  { mode: 'fill', label: 'Stretch' },
+  { mode: 'native', label: '1:1' },
+  { mode: 'zoom', label: 'Zoom' },
+];
+
+export const ScaleControls: React.FC<ScaleControlsProps> = ({ connection }) => {
+  const [scale, setScale] = useState<ScaleState>(connection.getScaleState());
+
+  useEffect(() => {
+    return connection.on('scale', setScale);
+  }, [connection]);
+
+  return (
+    <div
+      className="flex items-center bg-neutral-700 text-white rounded-lg"
+      title="Ctrl+Alt+Shift with + / - to zoom, 0 for 100%, 9 to fit"
+    >
+      <select
+        value={scale.mode}
+        onChange={(event) => {
+          const mode = event.target.value as ScaleMode;
+          if (mode === 'zoom') {
+            connection.setZoom(scale.zoom);
+          } else {
+            connection.setScaleMode(mode);
+          }
+        }}
+        className="bg-transparent pl-3 pr-1 py-2 text-sm font-medium rounded-l-lg hover:bg-neutral-600"
+      >
+        {MODES.map(({ mode, label }) => (
+          <option key={mode} value={mode} className="bg-neutral-700">
+            {label}
+          </option>
+        ))}
+      </select>
+      <button onClick={() => connection.zoomOut()} className="px-2 py-2 hover:bg-neutral-600" title="Zoom out">
+        <ZoomOut className="w-4 h-4" />
+      </button>
+      <span className="w-12 text-center text-sm tabular-nums">{scale.zoom}%</span>
+      <button onClick={() => connection.zoomIn()} className="px-2 py-2 rounded-r-lg hover:bg-neutral-600" title="Zoom in">
+        <ZoomIn className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
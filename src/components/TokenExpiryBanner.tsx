@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, RefreshCw, X } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { TokenStatus } from '../lib/auth/JWTAuthManager';
+
+interface TokenExpiryBannerProps {
+  connection: GuacamoleConnection;
+}
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Counts down to the end of the access link so users can save their work, or
+ * renew it when a refresher is configured. Guacamole only checks the token on
+ * connect, so an open session keeps running after it expires.
+ */
+export const TokenExpiryBanner: React.FC<TokenExpiryBannerProps> = ({ connection }) => {
+  const [status, setStatus] = useState<TokenStatus>(connection.getTokenStatus());
+  // Background refreshes happen well before the warning and stay silent
+  const [shownState, setShownState] = useState(status.state);
+  const [now, setNow] = useState(Date.now());
+  const [dismissed, setDismissed] = useState(false);
+  const [renewFailed, setRenewFailed] = useState(false);
+
+  useEffect(() => {
+    return connection.on('token', (next) => {
+      setStatus(next);
+      if (next.state !== 'refreshing') {
+        setShownState(next.state);
+        setDismissed(false);
+      }
+    });
+  }, [connection]);
+
+  const visible = shownState === 'expiring' || shownState === 'expired';
+  const expired = shownState === 'expired';
+
+  useEffect(() => {
+    if (!visible || expired) return;
+
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [visible, expired]);
+
+  if (!visible || dismissed || status.expiresAt === null) {
+    return null;
+  }
+
+  const handleRenew = async () => {
+    setRenewFailed(false);
+    setRenewFailed(!(await connection.refreshToken()));
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 max-w-md flex items-center gap-3 bg-neutral-800/95 border border-neutral-700 rounded-lg shadow-xl px-4 py-2 text-sm">
+      <Clock className={`w-4 h-4 shrink-0 ${expired ? 'text-red-400' : 'text-yellow-400'}`} />
+      <span className="text-neutral-200 flex-1">
+        {expired
+          ? 'Your access link has expired. This session stays open, but it cannot reconnect if it drops.'
+          : `Your access link expires in ${formatCountdown(status.expiresAt - now)}.`}
+        {renewFailed && <span className="block text-red-400">The link could not be renewed.</span>}
+      </span>
+      {status.canRefresh && (
+        <button
+          onClick={handleRenew}
+          disabled={status.state === 'refreshing'}
+          className="flex items-center gap-1 bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white rounded px-2 py-1 font-medium"
+        >
+          <RefreshCw className={`w-3 h-3 ${status.state === 'refreshing' ? 'animate-spin' : ''}`} />
+          Renew
+        </button>
+      )}
+      <button onClick={() => setDismissed(true)} className="text-neutral-400 hover:text-white" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { MousePointer2, Pointer } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { TouchMode } from '../lib/guacamole/TouchInputManager';
+
+interface TouchModeToggleProps {
+  connection: GuacamoleConnection;
+}
+
+const MODES: Record<TouchMode, { icon: typeof Pointer; label: string; hint: string }> = {
+  touchscreen: {
+    icon: Pointer,
+    label: 'Touchscreen',
+    hint: 'Tap where you want to click. Switch to touchpad mode',
+  },
+  touchpad: {
+    icon: MousePointer2,
+    label: 'Touchpad',
+    hint: 'Drag to move the pointer, tap to click. Switch to touchscreen mode',
+  },
+};
+
+export const TouchModeToggle: React.FC<TouchModeToggleProps> = ({ connection }) => {
+  const [mode, setMode] = useState<TouchMode>(connection.getTouchMode());
+
+  useEffect(() => {
+    return connection.on('touchmode', setMode);
+  }, [connection]);
+
+  const { icon: Icon, label, hint } = MODES[mode];
+
+  return (
+    <button
+      onClick={() => connection.setTouchMode(mode === 'touchscreen' ? 'touchpad' : 'touchscreen')}
+      className="bg-neutral-700 hover:bg-neutral-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors font-medium"
+      title={hint}
+    >
+      <Icon className="w-4 h-4" />
+      {label}
+    </button>
+  );
+};
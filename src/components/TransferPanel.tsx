@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Upload, Download, X, CheckCircle2, AlertCircle, Ban, Trash2 } from 'lucide-react';
+import { GuacamoleConnection } from '../lib/guacamole/GuacamoleConnection';
+import { FileTransfer } from '../lib/guacamole/FileTransferManager';
+
+interface TransferPanelProps {
+  connection: GuacamoleConnection;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const TransferRow: React.FC<{ transfer: FileTransfer; onCancel: () => void }> = ({ transfer, onCancel }) => {
+  const DirectionIcon = transfer.direction === 'upload' ? Upload : Download;
+  const percent = transfer.size ? Math.min(100, Math.round((transfer.transferred / transfer.size) * 100)) : null;
+  const isActive = transfer.status === 'queued' || transfer.status === 'in-progress';
+
+  const renderStatus = () => {
+    switch (transfer.status) {
+      case 'queued':
+        return <span className="text-neutral-400">Queued</span>;
+      case 'in-progress':
+        return (
+          <span className="text-neutral-300">
+            {formatBytes(transfer.transferred)}
+            {transfer.size !== null && ` of ${formatBytes(transfer.size)}`}
+            {' · '}
+            {formatBytes(transfer.bytesPerSecond)}/s
+          </span>
+        );
+      case 'completed':
+        return (
+          <span className="text-green-400 flex items-center gap-1">
+            <CheckCircle2 className="w-3 h-3" /> Done
+          </span>
+        );
+      case 'cancelled':
+        return (
+          <span className="text-neutral-400 flex items-center gap-1">
+            <Ban className="w-3 h-3" /> Cancelled
+          </span>
+        );
+      case 'error':
+        return (
+          <span className="text-red-400 flex items-center gap-1" title={transfer.error}>
+            <AlertCircle className="w-3 h-3" /> {transfer.error || 'Failed'}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <li className="px-4 py-3 border-b border-neutral-700 last:border-b-0">
+      <div className="flex items-center gap-2">
+        <DirectionIcon className="w-4 h-4 text-neutral-400 shrink-0" />
+        <span className="text-sm text-white truncate flex-1" title={transfer.filename}>
+          {transfer.filename}
+        </span>
+        {isActive && (
+          <button onClick={onCancel} className="text-neutral-400 hover:text-white" title="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {transfer.status === 'in-progress' && (
+        <div className="mt-2 h-1.5 bg-neutral-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full bg-red-600 transition-all ${percent === null ? 'animate-pulse w-full' : ''}`}
+            style={percent === null ? undefined : { width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      <div className="mt-1 text-xs truncate">{renderStatus()}</div>
+    </li>
+  );
+};
+
+export const TransferPanel: React.FC<TransferPanelProps> = ({ connection }) => {
+  const [transfers, setTransfers] = useState<FileTransfer[]>(connection.getTransfers());
+
+  useEffect(() => {
+    return connection.on('transfers', setTransfers);
+  }, [connection]);
+
+  if (transfers.length === 0) {
+    return null;
+  }
+
+  const activeCount = transfers.filter(
+    (transfer) => transfer.status === 'queued' || transfer.status === 'in-progress'
+  ).length;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-20 w-80 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl">
+      <div className="px-4 py-3 border-b border-neutral-700 flex items-center justify-between">
+        <span className="text-sm font-semibold text-white">
+          File Transfers{activeCount > 0 && ` (${activeCount} active)`}
+        </span>
+        <button
+          onClick={() => connection.clearFinishedTransfers()}
+          className="text-neutral-400 hover:text-white"
+          title="Clear finished"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto">
+        {transfers.map((transfer) => (
+          <TransferRow
+            key={transfer.id}
+            transfer={transfer}
+            onCancel={() => connection.cancelTransfer(transfer.id)}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,10 +1,16 @@
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+import { TokenRefresher } from './TokenRefresh';
+import { DEFAULT_TOKEN_SOURCES, TokenSource, scrubCredentialsFromURL } from './TokenSources';
+
+const logger = createLogger('JWTAuthManager');
 
-/*
 export interface JWTPayload {
-  sub: string;
-  exp: number;
-  connection: {
+  sub?: string;
+  // Seconds since the epoch, as in RFC 7519
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  connection?: {
     protocol: string;
     hostname: string;
     port: number;
@@ -24,74 +30,187 @@ export interface JWTPayload {
     'disable-offscreen-caching'?: boolean;
     'disable-glyph-caching'?: boolean;
   };
+  [claim: string]: unknown;
+}
+
+export type TokenInvalidReason = 'missing' | 'missing-guac-id' | 'malformed' | 'expired' | 'not-yet-valid';
+
+export type TokenValidation = { valid: true } | { valid: false; reason: TokenInvalidReason; message: string };
+
+export type TokenState = 'valid' | 'expiring' | 'refreshing' | 'expired' | 'invalid';
+
+export interface TokenStatus {
+  state: TokenState;
+  // Milliseconds since the epoch, null for tokens without an exp claim
+  expiresAt: number | null;
+  canRefresh: boolean;
+}
+
+export interface JWTAuthConfig {
+  // Tolerated difference between this machine's clock and the issuer's
+  clockSkewMs: number;
+  // How long before expiry the countdown warning starts
+  warningMs: number;
+  // How long before expiry the refresher is called
+  refreshLeadMs: number;
+  // Wait before trying again after a failed refresh
+  refreshRetryMs: number;
+  refresher: TokenRefresher | null;
+  // Read in order until both the token and the GUAC_ID are known
+  sources: TokenSource[];
 }
-*/
+
+const INVALID_MESSAGES: Record<TokenInvalidReason, string> = {
+  missing: 'No JWT token was provided',
+  'missing-guac-id': 'No GUAC_ID was provided',
+  malformed: 'The JWT token is not a valid JWT',
+  expired: 'The JWT token has expired',
+  'not-yet-valid': 'The JWT token is not valid yet',
+};
+
+// setTimeout overflows past this and fires immediately
+const MAX_TIMER_MS = 0x7fffffff;
+
+function decodePayload(token: string): JWTPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload: unknown = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return null;
+    }
+
+    const { exp, nbf } = payload as JWTPayload;
+    if ((exp !== undefined && typeof exp !== 'number') || (nbf !== undefined && typeof nbf !== 'number')) {
+      return null;
+    }
+
+    return payload as JWTPayload;
+  } catch {
+    return null;
+  }
+}
+
 export class JWTAuthManager {
   private token: string | null = null;
   private guacId: string | null = null;
-  //private payload: JWTPayload | null = null;
+  private payload: JWTPayload | null = null;
+
+  private loading: Promise<void> | null = null;
+  private receivedAt: number = 0;
+  private refreshing: Promise<boolean> | null = null;
+  private refreshFailedAt: number | null = null;
+  private timer: number | null = null;
+  private status: TokenStatus | null = null;
+  private onStatusChangeCallback: ((status: TokenStatus) => void) | null = null;
+
+  private config: JWTAuthConfig = {
+    clockSkewMs: 30000,
+    warningMs: 2 * 60 * 1000,
+    refreshLeadMs: 5 * 60 * 1000,
+    refreshRetryMs: 15000,
+    refresher: null,
+    sources: DEFAULT_TOKEN_SOURCES,
+  };
+
+  constructor(config?: Partial<JWTAuthConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
 
-  constructor() {
-    this.extractTokenFromURL();
+    logger.info('JWTAuthManager initialized', { sources: this.config.sources.map((source) => source.name) });
   }
 
-  private extractTokenFromURL(): void {
-    const urlParams = new URLSearchParams(window.location.search);
-    const tokenFromURL = urlParams.get('token');
-    const guacIdFromURL = urlParams.get('GUAC_ID');
-    
-    
-    if (tokenFromURL) {
-      //this.token(tokenFromURL);
-      this.token = tokenFromURL;
-      //window.history.replaceState({}, document.title, window.location.pathname);
-      logger.info('JWT token extracted from URL');
+  /**
+   * Reads the credentials from the configured sources. Safe to call more than
+   * once; every call shares the first read.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      // Whichever source ends up providing the token, it never stays visible
+      scrubCredentialsFromURL();
+      this.loading = this.readSources();
     }
-    if (guacIdFromURL) {
-      this.guacId = guacIdFromURL;
-      //window.history.replaceState({}, document.title, window.location.pathname);
-      logger.info('GUAC_ID extracted from URL');
+    return this.loading;
+  }
+
+  private async readSources(): Promise<void> {
+    let token: string | null = null;
+    let guacId: string | null = null;
+
+    for (const source of this.config.sources) {
+      if (token && guacId) {
+        break;
+      }
+
+      try {
+        const credentials = await source.read();
+        if (!token && credentials.token) {
+          token = credentials.token;
+          logger.info('JWT token read', { source: source.name });
+        }
+        if (!guacId && credentials.guacId) {
+          guacId = credentials.guacId;
+          logger.info('GUAC_ID read', { source: source.name });
+        }
+      } catch (error) {
+        logger.warn('Token source failed', { source: source.name, error });
+      }
     }
-    
-    if (!this.token) {
-      logger.warn('No JWT token found in URL');
+
+    if (token) {
+      this.storeToken(token);
+    } else {
+      logger.warn('No JWT token found');
     }
-    if (!this.guacId) {
-      logger.warn('No GUAC_ID found in URL');
+
+    this.guacId = guacId;
+    if (!guacId) {
+      logger.warn('No GUAC_ID found');
     }
+
+    this.persist();
+    this.updateStatus();
   }
 
-  /*
-  setToken(token: string): void {
-    this.token = token;
+  private persist(): void {
+    const credentials = this.token ? { token: this.token, guacId: this.guacId } : null;
+    this.config.sources.forEach((source) => source.write?.(credentials));
+  }
 
-    try {
-      const parts = token.split('.');
-      if (parts.length !== 3) {
-        throw new Error('Invalid JWT format');
-      }
+  /**
+   * Replaces the token, e.g. with one issued by a refresher. A token that
+   * does not decode is rejected and the current one kept.
+   */
+  setToken(token: string): TokenValidation {
+    if (!decodePayload(token)) {
+      logger.warn('Rejected replacement JWT token', { reason: 'malformed' });
+      return { valid: false, reason: 'malformed', message: INVALID_MESSAGES.malformed };
+    }
 
-      const payloadBase64 = parts[1];
-      const payloadJson = atob(payloadBase64.replace(/-/g, '+').replace(/_/g, '/'));
-      this.payload = JSON.parse(payloadJson) as JWTPayload;
+    this.storeToken(token);
+    this.persist();
+    this.updateStatus();
 
-      if (this.isExpired()) {
-        logger.warn('JWT token is expired');
-        throw new Error('Token expired');
-      }
+    const validation = this.validate();
+    const expiresAt = this.getExpiresAt();
+    logger.info('JWT token replaced', {
+      valid: validation.valid,
+      expiresAt: expiresAt === null ? null : new Date(expiresAt).toISOString(),
+    });
 
-      logger.info('JWT token set successfully', {
-        sub: this.payload.sub,
-        exp: new Date(this.payload.exp * 1000).toISOString(),
-      });
-    } catch (error) {
-      logger.error('Failed to parse JWT token', error);
-      this.token = null;
-      this.payload = null;
-      throw error;
-    }
+    return validation;
+  }
+
+  private storeToken(token: string): void {
+    this.token = token;
+    this.payload = decodePayload(token);
+    this.receivedAt = Date.now();
   }
-*/
+
   getToken(): string | null {
     return this.token;
   }
@@ -99,9 +218,22 @@ export class JWTAuthManager {
   getGuacId(): string | null {
     return this.guacId;
   }
-  /*getPayload(): JWTPayload | null {
+
+  /**
+   * Decoded token payload. The signature is verified by the server on
+   * connect, so a tampered token never reaches a session.
+   */
+  getClaims(): Record<string, unknown> | null {
     return this.payload;
-  }*/
+  }
+
+  getPayload(): JWTPayload | null {
+    return this.payload;
+  }
+
+  getExpiresAt(): number | null {
+    return typeof this.payload?.exp === 'number' ? this.payload.exp * 1000 : null;
+  }
 
 
   getConnectionParams(): string {
@@ -115,33 +247,203 @@ export class JWTAuthManager {
     logger.debug('Connection parameters for client.connect', { 
       tokenLength: this.token.length,
       guacId: this.guacId,
-      params 
     });
 
     return params;
   }
 
-  /*
   isExpired(): boolean {
-    if (!this.payload?.exp) {
-      return true;
+    const expiresAt = this.getExpiresAt();
+    return expiresAt !== null && Date.now() >= expiresAt + this.config.clockSkewMs;
+  }
+
+  /**
+   * Checks what can be checked without the signing key: the token decodes,
+   * has not expired and is already valid. Tokens without exp never expire.
+   */
+  validate(): TokenValidation {
+    const reason = this.getInvalidReason();
+    return reason === null ? { valid: true } : { valid: false, reason, message: INVALID_MESSAGES[reason] };
+  }
+
+  private getInvalidReason(): TokenInvalidReason | null {
+    if (!this.token) return 'missing';
+    if (!this.guacId) return 'missing-guac-id';
+    if (!this.payload) return 'malformed';
+    if (this.isExpired()) return 'expired';
+
+    const nbf = this.payload.nbf;
+    if (typeof nbf === 'number' && Date.now() < nbf * 1000 - this.config.clockSkewMs) {
+      return 'not-yet-valid';
     }
 
-    const now = Math.floor(Date.now() / 1000);
-    return now >= this.payload.exp;
+    return null;
   }
-*/
+
   isValid(): boolean {
-    return this.token !== null && this.guacId !== null;
+    return this.validate().valid;
+  }
+
+  canRefresh(): boolean {
+    return this.config.refresher !== null && this.token !== null;
+  }
+
+  setRefresher(refresher: TokenRefresher | null): void {
+    this.config.refresher = refresher;
+    this.updateStatus();
+  }
+
+  /**
+   * Asks the refresher for a new token. Concurrent calls share one request.
+   * Resolves to whether a valid token was installed.
+   */
+  refresh(): Promise<boolean> {
+    const refresher = this.config.refresher;
+    if (!refresher || !this.token) {
+      return Promise.resolve(false);
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh(refresher, this.token).finally(() => {
+        this.refreshing = null;
+        this.updateStatus();
+      });
+      this.updateStatus();
+    }
+
+    return this.refreshing;
+  }
+
+  private async runRefresh(refresher: TokenRefresher, currentToken: string): Promise<boolean> {
+    logger.info('Refreshing JWT token');
+
+    try {
+      const validation = this.setToken(await refresher(currentToken));
+      if (validation.valid) {
+        this.refreshFailedAt = null;
+        return true;
+      }
+      logger.warn('Refreshed JWT token is not usable', { reason: validation.reason });
+    } catch (error) {
+      logger.warn('JWT token refresh failed', error);
+    }
+
+    this.refreshFailedAt = Date.now();
+    return false;
+  }
+
+  getStatus(): TokenStatus {
+    const expiresAt = this.getExpiresAt();
+    const canRefresh = this.canRefresh();
+
+    let state: TokenState;
+    if (this.refreshing) {
+      state = 'refreshing';
+    } else if (this.isExpired()) {
+      state = 'expired';
+    } else if (!this.payload) {
+      state = 'invalid';
+    } else if (expiresAt !== null && Date.now() >= expiresAt - this.config.warningMs) {
+      state = 'expiring';
+    } else {
+      state = 'valid';
+    }
+
+    return { state, expiresAt, canRefresh };
+  }
+
+  onStatusChange(callback: (status: TokenStatus) => void): void {
+    this.onStatusChangeCallback = callback;
+  }
+
+  /**
+   * Publishes the status if it changed and arms a timer for the next point
+   * where it will: the warning, the refresh or the expiry itself.
+   */
+  private updateStatus(): void {
+    const status = this.getStatus();
+    const previous = this.status;
+    this.status = status;
+
+    if (
+      !previous ||
+      previous.state !== status.state ||
+      previous.expiresAt !== status.expiresAt ||
+      previous.canRefresh !== status.canRefresh
+    ) {
+      if (status.state === 'expiring' && previous?.state !== 'expiring') {
+        logger.warn('JWT token expires soon', { expiresAt: new Date(status.expiresAt!).toISOString() });
+      }
+      if (status.state === 'expired' && previous?.state !== 'expired') {
+        logger.warn('JWT token has expired');
+      }
+      this.onStatusChangeCallback?.(status);
+    }
+
+    this.scheduleUpdate(status);
+  }
+
+  private scheduleUpdate(status: TokenStatus): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (status.expiresAt === null || status.state === 'refreshing' || status.state === 'expired') {
+      return;
+    }
+
+    const now = Date.now();
+    const refreshAt = status.canRefresh ? this.getRefreshAt(status.expiresAt) : Infinity;
+
+    if (now >= refreshAt) {
+      void this.refresh();
+      return;
+    }
+
+    const next = Math.min(
+      ...[status.expiresAt - this.config.warningMs, refreshAt, status.expiresAt + this.config.clockSkewMs].filter(
+        (time) => time > now
+      )
+    );
+
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.updateStatus();
+    }, Math.min(next - now, MAX_TIMER_MS));
+  }
+
+  private getRefreshAt(expiresAt: number): number {
+    // Never before half the token's lifetime, so a refresher that hands out
+    // short-lived tokens is not called in a loop
+    const refreshAt = Math.max(
+      expiresAt - this.config.refreshLeadMs,
+      this.receivedAt + (expiresAt - this.receivedAt) / 2
+    );
+
+    return this.refreshFailedAt === null
+      ? refreshAt
+      : Math.max(refreshAt, this.refreshFailedAt + this.config.refreshRetryMs);
   }
 
   clear(): void {
     this.token = null;
     this.guacId = null;
+    this.payload = null;
+    this.persist();
+    this.updateStatus();
   
     logger.info('JWT token cleared');
   }
 
+  destroy(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onStatusChangeCallback = null;
+  }
+
   buildWebSocketURL(baseURL: string): string {
 
     logger.debug('WebSocket URL built (base only)', { url: baseURL });
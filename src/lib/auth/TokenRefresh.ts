@@ -0,0 +1,105 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('TokenRefresh');
+
+/**
+ * Obtains a replacement for the current token. Rejects when no new token
+ * could be issued, e.g. because the portal session itself has ended.
+ */
+export type TokenRefresher = (currentToken: string) => Promise<string>;
+
+export const TOKEN_REQUEST_MESSAGE = 'guacamole-token-request';
+export const TOKEN_RESPONSE_MESSAGE = 'guacamole-token';
+
+let nextRequestId = 0;
+
+/**
+ * Refreshes by POSTing to an endpoint with the current token as a bearer
+ * token. The response is either JSON with a `token` field or the bare token.
+ */
+export function createHttpRefresher(url: string, credentials: RequestCredentials = 'same-origin'): TokenRefresher {
+  return async (currentToken) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      credentials,
+      headers: { Authorization: `Bearer ${currentToken}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token refresh endpoint returned ${response.status}`);
+    }
+
+    const body = (await response.text()).trim();
+    if (!body.startsWith('{')) {
+      return body;
+    }
+
+    const token = (JSON.parse(body) as { token?: unknown }).token;
+    if (typeof token !== 'string') {
+      throw new Error('Token refresh response has no token field');
+    }
+
+    return token;
+  };
+}
+
+/**
+ * Asks the embedding page for a token, for portals that show the client in an
+ * iframe and already hold the user's session.
+ *
+ * The parent receives `{ type: 'guacamole-token-request', id }` and answers
+ * with `{ type: 'guacamole-token', id, token, guacId? }`, or `error` instead
+ * of `token` when it cannot issue one.
+ */
+export function requestTokenFromParent(
+  targetOrigin: string,
+  timeoutMs: number = 10000
+): Promise<{ token: string; guacId: string | null }> {
+  if (window.parent === window) {
+    return Promise.reject(new Error('Not embedded in a parent window'));
+  }
+
+  const id = `token-${Date.now()}-${nextRequestId++}`;
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || (targetOrigin !== '*' && event.origin !== targetOrigin)) {
+        return;
+      }
+
+      const data = event.data;
+      if (!data || data.type !== TOKEN_RESPONSE_MESSAGE || data.id !== id) {
+        return;
+      }
+
+      finish();
+      if (typeof data.token === 'string') {
+        resolve({ token: data.token, guacId: typeof data.guacId === 'string' ? data.guacId : null });
+      } else {
+        reject(new Error(typeof data.error === 'string' ? data.error : 'Parent window did not provide a token'));
+      }
+    };
+
+    const timer = window.setTimeout(() => {
+      finish();
+      reject(new Error('Parent window did not answer the token request'));
+    }, timeoutMs);
+
+    window.addEventListener('message', onMessage);
+    window.parent.postMessage({ type: TOKEN_REQUEST_MESSAGE, id }, targetOrigin);
+
+    logger.debug('Token requested from parent window', { id, targetOrigin });
+  });
+}
+
+/**
+ * Refreshes by asking the embedding page, see requestTokenFromParent.
+ */
+export function createParentWindowRefresher(targetOrigin: string, timeoutMs: number = 10000): TokenRefresher {
+  return async () => (await requestTokenFromParent(targetOrigin, timeoutMs)).token;
+}
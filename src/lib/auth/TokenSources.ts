@@ -0,0 +1,196 @@
+import { createLogger } from '../utils/logger';
+import { requestTokenFromParent } from './TokenRefresh';
+
+const logger = createLogger('TokenSources');
+
+export interface TokenCredentials {
+  token: string | null;
+  guacId: string | null;
+}
+
+/**
+ * Somewhere the connection token can come from. JWTAuthManager reads sources
+ * in order until it has both the token and the GUAC_ID.
+ */
+export interface TokenSource {
+  readonly name: string;
+  read(): Promise<TokenCredentials>;
+  // Sources that can hold a token get every replacement, e.g. after a refresh
+  write?(credentials: TokenCredentials | null): void;
+}
+
+export type TokenSourceName = 'query' | 'fragment' | 'session' | 'exchange' | 'parent';
+
+// Parameter names shared by the query string and the fragment
+const TOKEN_PARAM = 'token';
+const GUAC_ID_PARAM = 'GUAC_ID';
+
+const SESSION_STORAGE_KEY = 'guacamole-credentials';
+
+// Taken before anything scrubs the address bar, so a remounted client still
+// finds the credentials the page was opened with
+const INITIAL_URL = new URL(window.location.href);
+
+const EMPTY: TokenCredentials = { token: null, guacId: null };
+
+function fromParams(params: URLSearchParams): TokenCredentials {
+  return { token: params.get(TOKEN_PARAM), guacId: params.get(GUAC_ID_PARAM) };
+}
+
+export function createQueryTokenSource(): TokenSource {
+  return {
+    name: 'query',
+    read: async () => fromParams(INITIAL_URL.searchParams),
+  };
+}
+
+/**
+ * Reads `#token=...&GUAC_ID=...`. Fragments are never sent to the server, so
+ * the token stays out of access logs.
+ */
+export function createFragmentTokenSource(): TokenSource {
+  return {
+    name: 'fragment',
+    read: async () => fromParams(new URLSearchParams(INITIAL_URL.hash.slice(1))),
+  };
+}
+
+/**
+ * Keeps the credentials for this tab only, so a reload works after the URL
+ * was scrubbed. Unlike the other sources it is written back on refresh.
+ */
+export function createSessionStorageTokenSource(key: string = SESSION_STORAGE_KEY): TokenSource {
+  return {
+    name: 'session',
+    read: async () => {
+      try {
+        const stored: unknown = JSON.parse(window.sessionStorage.getItem(key) ?? 'null');
+        if (!stored || typeof stored !== 'object') {
+          return EMPTY;
+        }
+
+        const { token, guacId } = stored as Partial<TokenCredentials>;
+        return {
+          token: typeof token === 'string' ? token : null,
+          guacId: typeof guacId === 'string' ? guacId : null,
+        };
+      } catch (error) {
+        logger.warn('Failed to read credentials from sessionStorage', error);
+        return EMPTY;
+      }
+    },
+    write: (credentials) => {
+      try {
+        if (credentials?.token) {
+          window.sessionStorage.setItem(key, JSON.stringify(credentials));
+        } else {
+          window.sessionStorage.removeItem(key);
+        }
+      } catch (error) {
+        logger.warn('Failed to store credentials in sessionStorage', error);
+      }
+    },
+  };
+}
+
+/**
+ * Exchanges an HTTP-only session cookie for a token, so the token never
+ * appears in a URL at all. The endpoint answers `{ token, guacId? }`.
+ */
+export function createExchangeTokenSource(url: string): TokenSource {
+  return {
+    name: 'exchange',
+    read: async () => {
+      const response = await fetch(url, { method: 'POST', credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Token exchange endpoint returned ${response.status}`);
+      }
+
+      const { token, guacId } = (await response.json()) as { token?: unknown; guacId?: unknown };
+      return {
+        token: typeof token === 'string' ? token : null,
+        guacId: typeof guacId === 'string' ? guacId : null,
+      };
+    },
+  };
+}
+
+/**
+ * Asks the embedding page, with the same messages as the parent-window
+ * refresher.
+ */
+export function createParentWindowTokenSource(targetOrigin: string, timeoutMs?: number): TokenSource {
+  return {
+    name: 'parent',
+    read: () => requestTokenFromParent(targetOrigin, timeoutMs),
+  };
+}
+
+// The URL is scrubbed on load, so without the session source a reload would
+// find no token. It comes last so that a new link wins over a stored token.
+export const DEFAULT_TOKEN_SOURCES: TokenSource[] = [
+  createQueryTokenSource(),
+  createFragmentTokenSource(),
+  createSessionStorageTokenSource(),
+];
+
+/**
+ * Builds sources from a comma-separated list such as
+ * `"session,query,fragment"`. Returns null when nothing usable is listed.
+ */
+export function parseTokenSources(
+  value: unknown,
+  options: { exchangeURL?: string; parentOrigin?: string } = {}
+): TokenSource[] | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const factories: Record<TokenSourceName, () => TokenSource | null> = {
+    query: createQueryTokenSource,
+    fragment: createFragmentTokenSource,
+    session: () => createSessionStorageTokenSource(),
+    exchange: () => (options.exchangeURL ? createExchangeTokenSource(options.exchangeURL) : null),
+    parent: () => (options.parentOrigin ? createParentWindowTokenSource(options.parentOrigin) : null),
+  };
+
+  const sources: TokenSource[] = [];
+  for (const name of value.split(',').map((part) => part.trim())) {
+    const known = Object.prototype.hasOwnProperty.call(factories, name);
+    const source = known ? factories[name as TokenSourceName]() : null;
+    if (source) {
+      sources.push(source);
+    } else {
+      logger.warn('Ignoring token source', { name, reason: known ? 'not configured' : 'unknown' });
+    }
+  }
+
+  return sources.length > 0 ? sources : null;
+}
+
+/**
+ * Removes the credentials from the address bar, and with it from history and
+ * Referer headers, keeping every other parameter.
+ */
+export function scrubCredentialsFromURL(): void {
+  const url = new URL(window.location.href);
+  const hash = new URLSearchParams(url.hash.slice(1));
+
+  const inQuery = url.searchParams.has(TOKEN_PARAM) || url.searchParams.has(GUAC_ID_PARAM);
+  const inHash = hash.has(TOKEN_PARAM) || hash.has(GUAC_ID_PARAM);
+  if (!inQuery && !inHash) {
+    return;
+  }
+
+  url.searchParams.delete(TOKEN_PARAM);
+  url.searchParams.delete(GUAC_ID_PARAM);
+
+  if (inHash) {
+    hash.delete(TOKEN_PARAM);
+    hash.delete(GUAC_ID_PARAM);
+    url.hash = hash.toString();
+  }
+
+  window.history.replaceState(window.history.state, document.title, url.toString());
+  logger.info('Credentials removed from the URL');
+}
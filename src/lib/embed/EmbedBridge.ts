@@ -0,0 +1,231 @@
+import { createLogger, redact } from '../utils/logger';
+import { Unsubscribe } from '../utils/EventEmitter';
+import { GuacamoleConnection, ConnectionState, TunnelTransport } from '../guacamole/GuacamoleConnection';
+import { GuacamoleError } from '../guacamole/GuacamoleError';
+import { ScaleMode } from '../guacamole/DisplayScaleManager';
+import { CLIENT_VERSION } from '../version';
+import {
+  EMBED_COMMAND_MESSAGE,
+  EMBED_EVENT_MESSAGE,
+  EMBED_PROTOCOL_VERSION,
+  EMBED_RESULT_MESSAGE,
+  EmbedCommandMessage,
+  EmbedConnectionState,
+  EmbedEventMessage,
+  EmbedEvents,
+  EmbedResultMessage,
+  EmbedScaleMode,
+} from './EmbedProtocol';
+
+const logger = createLogger('EmbedBridge');
+
+// Fails to compile when the wire types drift from the client's own
+const toWireState = (state: ConnectionState): EmbedConnectionState => state;
+const toWireTransport = (transport: TunnelTransport | null): EmbedEvents['state']['transport'] => transport;
+const fromWireScaleMode = (mode: EmbedScaleMode): ScaleMode => mode;
+
+const SCALE_MODES: EmbedScaleMode[] = ['fit', 'fill', 'native', 'zoom'];
+
+const CONNECTABLE_STATES = [ConnectionState.IDLE, ConnectionState.DISCONNECTED, ConnectionState.ERROR];
+
+/**
+ * Lets the page embedding the client in an iframe control the connection and
+ * follow its state, see EmbedProtocol. Only messages from the parent window
+ * at the configured origin are accepted, and events are posted to that origin
+ * only.
+ *
+ * Lives as long as the client component; connections come and go with
+ * setConnection().
+ */
+export class EmbedBridge {
+  private targetOrigin: string;
+  private connection: GuacamoleConnection | null = null;
+  private subscriptions: Unsubscribe[] = [];
+
+  private onConnectRequestCallback: (() => void) | null = null;
+
+  constructor(targetOrigin: string) {
+    this.targetOrigin = targetOrigin;
+
+    if (targetOrigin === '*') {
+      logger.warn('Accepting embed commands from any parent origin');
+    }
+
+    window.addEventListener('message', this.onMessage);
+    this.postReady();
+
+    logger.info('EmbedBridge initialized', { targetOrigin });
+  }
+
+  static isEmbedded(): boolean {
+    return window.parent !== window;
+  }
+
+  setConnection(connection: GuacamoleConnection | null): void {
+    this.unsubscribe();
+    this.connection = connection;
+
+    if (!connection) {
+      return;
+    }
+
+    this.subscriptions.push(
+      connection.onStateChange((state, transport) => {
+        this.post('state', { state: toWireState(state), transport: toWireTransport(transport) });
+      }),
+      connection.onError((error) => this.reportError(error)),
+      connection.on('name', (name) => this.post('name', { name })),
+      connection.on('resize', ({ width, height }) => {
+        if (width > 0 && height > 0) {
+          this.post('size', { width, height });
+        }
+      })
+    );
+
+    this.post('state', { state: toWireState(connection.getState()), transport: toWireTransport(connection.getTransport()) });
+  }
+
+  /**
+   * For errors raised before any connection exists, e.g. a rejected token.
+   * Errors of the current connection are forwarded on their own.
+   */
+  reportError(error: GuacamoleError): void {
+    if (!this.connection) {
+      this.post('state', { state: 'ERROR', transport: null });
+    }
+
+    this.post('error', {
+      code: error.getCodeLabel(),
+      category: error.category,
+      title: error.title,
+      message: error.userMessage,
+      detail: redact(error.message) as string,
+      retryable: error.retryable,
+    });
+  }
+
+  /**
+   * Called for the connect command, once the bridge has checked that the
+   * connection can be started. Clearing the error screen is up to the caller.
+   */
+  onConnectRequest(callback: () => void): void {
+    this.onConnectRequestCallback = callback;
+  }
+
+  private onMessage = (event: MessageEvent): void => {
+    if (event.source !== window.parent || (this.targetOrigin !== '*' && event.origin !== this.targetOrigin)) {
+      return;
+    }
+
+    const data = event.data;
+    if (!data || data.type !== EMBED_COMMAND_MESSAGE || typeof data.id !== 'string') {
+      return;
+    }
+
+    if (data.version !== EMBED_PROTOCOL_VERSION) {
+      this.respond(data.id, `Unsupported protocol version ${data.version}, expected ${EMBED_PROTOCOL_VERSION}`);
+      return;
+    }
+
+    logger.debug('Embed command received', { id: data.id, command: data.command });
+    this.respond(data.id, this.execute(data as EmbedCommandMessage));
+  };
+
+  // Returns an error message, or null on success
+  private execute(message: EmbedCommandMessage): string | null {
+    if (message.command === 'hello') {
+      this.postReady();
+      return null;
+    }
+
+    const connection = this.connection;
+    if (!connection) {
+      return 'No connection available';
+    }
+
+    switch (message.command) {
+      case 'connect':
+        if (!CONNECTABLE_STATES.includes(connection.getState())) {
+          return 'Connection already active or in progress';
+        }
+        if (!this.onConnectRequestCallback) {
+          return 'Connecting is not supported here';
+        }
+        this.onConnectRequestCallback();
+        return null;
+
+      case 'disconnect':
+        connection.disconnect();
+        return null;
+
+      case 'send-key-combo':
+        if (typeof message.combo !== 'string') {
+          return 'combo must be a string';
+        }
+        return connection.sendKeyCombo(message.combo) ? null : `Cannot send key combination ${message.combo}`;
+
+      case 'set-scale-mode':
+        if (!SCALE_MODES.includes(message.mode)) {
+          return `Unknown scale mode ${message.mode}`;
+        }
+        if (message.zoom !== undefined && typeof message.zoom !== 'number') {
+          return 'zoom must be a number';
+        }
+        connection.setScaleMode(fromWireScaleMode(message.mode));
+        if (message.zoom !== undefined) {
+          connection.setZoom(message.zoom);
+        }
+        return null;
+
+      case 'set-clipboard':
+        if (typeof message.text !== 'string') {
+          return 'text must be a string';
+        }
+        return connection.sendClipboardText(message.text) ? null : 'Clipboard is unavailable or blocked by policy';
+
+      default:
+        return `Unknown command ${(message as { command: unknown }).command}`;
+    }
+  }
+
+  private respond(id: string, error: string | null): void {
+    if (error) {
+      logger.warn('Embed command failed', { id, error });
+    }
+
+    const message: EmbedResultMessage = {
+      type: EMBED_RESULT_MESSAGE,
+      version: EMBED_PROTOCOL_VERSION,
+      id,
+      ok: error === null,
+      ...(error !== null && { error }),
+    };
+    window.parent.postMessage(message, this.targetOrigin);
+  }
+
+  // Hosts that attach late only learn about the client from this
+  private postReady(): void {
+    this.post('ready', {
+      version: EMBED_PROTOCOL_VERSION,
+      clientVersion: CLIENT_VERSION,
+      state: this.connection ? toWireState(this.connection.getState()) : 'IDLE',
+    });
+  }
+
+  private post<K extends keyof EmbedEvents>(event: K, data: EmbedEvents[K]): void {
+    const message = { type: EMBED_EVENT_MESSAGE, version: EMBED_PROTOCOL_VERSION, event, data } as EmbedEventMessage;
+    window.parent.postMessage(message, this.targetOrigin);
+  }
+
+  private unsubscribe(): void {
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions = [];
+  }
+
+  destroy(): void {
+    this.unsubscribe();
+    window.removeEventListener('message', this.onMessage);
+    this.connection = null;
+    this.onConnectRequestCallback = null;
+  }
+}
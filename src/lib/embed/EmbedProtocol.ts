@@ -0,0 +1,84 @@
+/**
+ * Messages exchanged with a page that embeds the client in an iframe. Shared
+ * by EmbedBridge (inside the iframe) and GuacamoleEmbed (on the host page), so
+ * this file must stay free of imports.
+ *
+ * Every message carries `version`. The version only changes when an existing
+ * message changes shape; new commands and events are added without a bump.
+ */
+
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Host to client
+export const EMBED_COMMAND_MESSAGE = 'guacamole-command';
+// Client to host, one per command
+export const EMBED_RESULT_MESSAGE = 'guacamole-result';
+// Client to host, unsolicited
+export const EMBED_EVENT_MESSAGE = 'guacamole-event';
+
+// Wire copies of the client's own types, checked against them in EmbedBridge
+export type EmbedConnectionState =
+  | 'IDLE'
+  | 'CONNECTING'
+  | 'CONNECTED'
+  | 'RECONNECTING'
+  | 'DISCONNECTING'
+  | 'DISCONNECTED'
+  | 'ERROR';
+export type EmbedScaleMode = 'fit' | 'fill' | 'native' | 'zoom';
+
+export interface EmbedCommands {
+  // Asks the client to post `ready` again, for hosts that attach after the
+  // iframe has loaded. Answered even without a connection.
+  hello: Record<string, never>;
+  connect: Record<string, never>;
+  disconnect: Record<string, never>;
+  // Id of a key combination, e.g. 'ctrl-alt-del'
+  'send-key-combo': { combo: string };
+  // zoom is a percentage, used with the zoom mode
+  'set-scale-mode': { mode: EmbedScaleMode; zoom?: number };
+  // Sent to the remote clipboard, subject to the clipboard policy
+  'set-clipboard': { text: string };
+}
+
+export type EmbedCommandName = keyof EmbedCommands;
+
+export interface EmbedEvents {
+  // Sent once the client listens for commands and in answer to hello
+  ready: { version: number; clientVersion: string; state: EmbedConnectionState };
+  state: { state: EmbedConnectionState; transport: 'websocket' | 'http' | null };
+  // message is meant for users, detail for logs
+  error: { code: string | null; category: string; title: string; message: string; detail: string; retryable: boolean };
+  // Name of the remote desktop, as reported by the server
+  name: { name: string };
+  // Remote display size in pixels
+  size: { width: number; height: number };
+}
+
+export type EmbedEventName = keyof EmbedEvents;
+
+export type EmbedCommandMessage = {
+  [K in EmbedCommandName]: {
+    type: typeof EMBED_COMMAND_MESSAGE;
+    version: number;
+    id: string;
+    command: K;
+  } & EmbedCommands[K];
+}[EmbedCommandName];
+
+export interface EmbedResultMessage {
+  type: typeof EMBED_RESULT_MESSAGE;
+  version: number;
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+export type EmbedEventMessage = {
+  [K in EmbedEventName]: {
+    type: typeof EMBED_EVENT_MESSAGE;
+    version: number;
+    event: K;
+    data: EmbedEvents[K];
+  };
+}[EmbedEventName];
@@ -0,0 +1,231 @@
+import {
+  EMBED_COMMAND_MESSAGE,
+  EMBED_EVENT_MESSAGE,
+  EMBED_PROTOCOL_VERSION,
+  EMBED_RESULT_MESSAGE,
+  EmbedCommandName,
+  EmbedCommands,
+  EmbedConnectionState,
+  EmbedEventName,
+  EmbedEvents,
+  EmbedScaleMode,
+} from './EmbedProtocol';
+
+export interface GuacamoleEmbedOptions {
+  // Origin the client is served from; messages from anywhere else are ignored
+  origin: string;
+  // How long a command may go unanswered, including the wait for `ready`
+  timeoutMs?: number;
+  // How often hello is sent until the client answers
+  helloIntervalMs?: number;
+}
+
+interface PendingCommand {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+let nextCommandId = 0;
+
+// Sent as the hello command's id; its result is of no interest
+const HELLO_ID = 'hello';
+
+/**
+ * Host-side helper for pages that embed the client in an iframe. Runs on the
+ * portal, not in the client, and depends on EmbedProtocol only.
+ *
+ * ```ts
+ * const embed = new GuacamoleEmbed(iframe, { origin: 'https://desktop.example.com' });
+ * embed.on('state', ({ state }) => console.log(state));
+ * await embed.sendKeyCombo('ctrl-alt-del');
+ * ```
+ *
+ * The helper can be created before or after the iframe loads: it sends hello
+ * until the client answers with `ready`. Commands wait for that, and reject
+ * when the client has not answered within the timeout.
+ */
+export class GuacamoleEmbed {
+  private iframe: HTMLIFrameElement;
+  private origin: string;
+  private timeoutMs: number;
+
+  private pending = new Map<string, PendingCommand>();
+  private listeners: { [K in EmbedEventName]?: Set<(data: EmbedEvents[K]) => void> } = {};
+
+  private state: EmbedConnectionState | null = null;
+  private ready: boolean = false;
+  private readyWaiters: Set<() => void> = new Set();
+  private helloTimer: number | null = null;
+
+  constructor(iframe: HTMLIFrameElement, options: GuacamoleEmbedOptions) {
+    this.iframe = iframe;
+    this.origin = options.origin;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+
+    window.addEventListener('message', this.onMessage);
+
+    this.sendHello();
+    this.helloTimer = window.setInterval(() => this.sendHello(), options.helloIntervalMs ?? 500);
+  }
+
+  // Posted blindly: until the client page has loaded, the browser drops it
+  private sendHello(): void {
+    this.iframe.contentWindow?.postMessage(
+      { type: EMBED_COMMAND_MESSAGE, version: EMBED_PROTOCOL_VERSION, id: HELLO_ID, command: 'hello' },
+      this.origin
+    );
+  }
+
+  private stopHello(): void {
+    if (this.helloTimer !== null) {
+      window.clearInterval(this.helloTimer);
+      this.helloTimer = null;
+    }
+  }
+
+  connect(): Promise<void> {
+    return this.send('connect', {});
+  }
+
+  disconnect(): Promise<void> {
+    return this.send('disconnect', {});
+  }
+
+  sendKeyCombo(combo: string): Promise<void> {
+    return this.send('send-key-combo', { combo });
+  }
+
+  setScaleMode(mode: EmbedScaleMode, zoom?: number): Promise<void> {
+    return this.send('set-scale-mode', zoom === undefined ? { mode } : { mode, zoom });
+  }
+
+  setClipboard(text: string): Promise<void> {
+    return this.send('set-clipboard', { text });
+  }
+
+  // Last state reported by the client, null before the first report
+  getState(): EmbedConnectionState | null {
+    return this.state;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  on<K extends EmbedEventName>(event: K, listener: (data: EmbedEvents[K]) => void): () => void {
+    let set = this.listeners[event] as Set<(data: EmbedEvents[K]) => void> | undefined;
+    if (!set) {
+      set = new Set();
+      (this.listeners as Record<K, Set<(data: EmbedEvents[K]) => void>>)[event] = set;
+    }
+    set.add(listener);
+
+    return () => {
+      set?.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves once the client has applied the command, rejects with the
+   * client's reason otherwise. Waits for `ready` first.
+   */
+  private send<K extends EmbedCommandName>(command: K, args: EmbedCommands[K]): Promise<void> {
+    const id = `command-${Date.now()}-${nextCommandId++}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pending.delete(id);
+        this.readyWaiters.delete(post);
+        reject(new Error(`The client did not answer the ${command} command`));
+      }, this.timeoutMs);
+
+      const post = () => {
+        const target = this.iframe.contentWindow;
+        if (!target) {
+          this.pending.delete(id);
+          window.clearTimeout(timer);
+          reject(new Error('The client iframe is not attached to the document'));
+          return;
+        }
+        target.postMessage({ ...args, type: EMBED_COMMAND_MESSAGE, version: EMBED_PROTOCOL_VERSION, id, command }, this.origin);
+      };
+
+      this.pending.set(id, { resolve, reject, timer });
+      if (this.ready) {
+        post();
+      } else {
+        this.readyWaiters.add(post);
+      }
+    });
+  }
+
+  private onMessage = (event: MessageEvent): void => {
+    if (event.source !== this.iframe.contentWindow || event.origin !== this.origin) {
+      return;
+    }
+
+    const data = event.data;
+    if (!data || data.version !== EMBED_PROTOCOL_VERSION) {
+      return;
+    }
+
+    if (data.type === EMBED_RESULT_MESSAGE) {
+      const command = this.pending.get(data.id);
+      if (!command) {
+        return;
+      }
+
+      this.pending.delete(data.id);
+      window.clearTimeout(command.timer);
+      if (data.ok) {
+        command.resolve();
+      } else {
+        command.reject(new Error(typeof data.error === 'string' ? data.error : 'Command failed'));
+      }
+    } else if (data.type === EMBED_EVENT_MESSAGE) {
+      this.handleEvent(data.event, data.data);
+    }
+  };
+
+  private handleEvent<K extends EmbedEventName>(event: K, data: EmbedEvents[K]): void {
+    if (event === 'ready') {
+      this.state = (data as EmbedEvents['ready']).state;
+      this.stopHello();
+
+      // The client posts ready again for every hello still in flight
+      if (this.ready) {
+        return;
+      }
+      this.ready = true;
+
+      const waiters = Array.from(this.readyWaiters);
+      this.readyWaiters.clear();
+      waiters.forEach((post) => post());
+    } else if (event === 'state') {
+      this.state = (data as EmbedEvents['state']).state;
+    }
+
+    const set = this.listeners[event] as Set<(data: EmbedEvents[K]) => void> | undefined;
+    set?.forEach((listener) => {
+      try {
+        listener(data);
+      } catch (error) {
+        // One broken listener must not starve the others
+        console.error('GuacamoleEmbed listener failed', error);
+      }
+    });
+  }
+
+  destroy(): void {
+    this.stopHello();
+    this.readyWaiters.clear();
+    window.removeEventListener('message', this.onMessage);
+    this.pending.forEach((command) => {
+      window.clearTimeout(command.timer);
+      command.reject(new Error('GuacamoleEmbed destroyed'));
+    });
+    this.pending.clear();
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,304 @@
+import { createLogger } from '../utils/logger';
+import { GuacamoleStatusCode } from './GuacamoleError';
+import Guacamole from 'guacamole-common-js';
+
+const logger = createLogger('AudioManager');
+
+export type MicrophoneState = 'off' | 'requesting' | 'on' | 'denied' | 'unavailable';
+
+export interface AudioState {
+  muted: boolean;
+  // The browser will not start audio until the user interacts with the page
+  playbackBlocked: boolean;
+  microphone: MicrophoneState;
+}
+
+export interface AudioConfig {
+  muted: boolean;
+  // Open the microphone as soon as the session connects
+  microphone: boolean;
+}
+
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'];
+
+export class AudioManager {
+  private client: any;
+  private context: AudioContext | null;
+  private muted: boolean;
+  private microphone: MicrophoneState = 'off';
+  private microphoneStream: any = null;
+  private recorder: any = null;
+  // Bumped whenever a pending permission request should be discarded
+  private microphoneRequest: number = 0;
+
+  private onChangeCallback: ((state: AudioState) => void) | null = null;
+
+  private config: AudioConfig = {
+    muted: false,
+    microphone: false,
+  };
+
+  /**
+   * Mimetypes this browser can play, advertised to guacd as GUAC_AUDIO
+   * connect parameters so it only sends audio we can decode.
+   */
+  static getHandshakeParams(): string {
+    return Guacamole.AudioPlayer.getSupportedTypes()
+      .map((mimetype: string) => `&GUAC_AUDIO=${encodeURIComponent(mimetype)}`)
+      .join('');
+  }
+
+  constructor(client: any, config?: Partial<AudioConfig>) {
+    this.client = client;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.muted = this.config.muted;
+
+    // Every Guacamole.AudioPlayer shares this context, so suspending it
+    // silences all streams at once
+    this.context = Guacamole.AudioContextFactory.getAudioContext();
+    if (this.context) {
+      this.context.addEventListener('statechange', this.notifyChange);
+      if (this.muted) {
+        this.context.suspend().catch(() => undefined);
+      }
+    }
+
+    this.setupAudioHandler();
+    this.watchForUnlock();
+
+    logger.info('AudioManager initialized', {
+      ...this.config,
+      playback: Guacamole.AudioPlayer.getSupportedTypes(),
+      recording: Guacamole.AudioRecorder.getSupportedTypes(),
+    });
+  }
+
+  private setupAudioHandler(): void {
+    this.client.onaudio = (stream: any, mimetype: string) => {
+      const player = Guacamole.AudioPlayer.getInstance(stream, mimetype);
+
+      if (!player) {
+        logger.warn('Unsupported audio stream', { mimetype });
+        return null;
+      }
+
+      logger.info('Audio stream started', { mimetype });
+      this.watchForUnlock();
+      this.notifyChange();
+      return player;
+    };
+  }
+
+  /**
+   * Browsers create the context suspended until a user gesture, and audio
+   * arriving before that is dropped. Resume on the first interaction.
+   */
+  private watchForUnlock(): void {
+    if (!this.isPlaybackBlocked()) {
+      return;
+    }
+
+    UNLOCK_EVENTS.forEach((type) => window.addEventListener(type, this.onUserGesture, true));
+  }
+
+  private stopWatchingForUnlock(): void {
+    UNLOCK_EVENTS.forEach((type) => window.removeEventListener(type, this.onUserGesture, true));
+  }
+
+  private onUserGesture = (): void => {
+    this.stopWatchingForUnlock();
+
+    if (!this.context || this.muted) {
+      return;
+    }
+
+    this.context.resume()
+      .then(() => logger.info('Audio playback unlocked'))
+      .catch((error) => logger.warn('Failed to unlock audio playback', error));
+  };
+
+  private isPlaybackBlocked(): boolean {
+    return !!this.context && !this.muted && this.context.state !== 'running';
+  }
+
+  setMuted(muted: boolean): void {
+    if (this.muted === muted) {
+      return;
+    }
+
+    this.muted = muted;
+
+    if (this.context) {
+      const change = muted ? this.context.suspend() : this.context.resume();
+      change.catch((error) => logger.warn('Failed to change audio state', { muted, error }));
+    }
+
+    logger.info('Audio output muted changed', { muted });
+    this.notifyChange();
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  start(): void {
+    if (this.config.microphone) {
+      this.enableMicrophone();
+    }
+  }
+
+  setMicrophoneEnabled(enabled: boolean): void {
+    if (enabled) {
+      this.enableMicrophone();
+    } else {
+      this.disableMicrophone();
+    }
+  }
+
+  private async enableMicrophone(): Promise<void> {
+    if (this.microphone === 'on' || this.microphone === 'requesting' || !this.client) {
+      return;
+    }
+
+    const mimetype: string | undefined = Guacamole.AudioRecorder.getSupportedTypes()[0];
+    if (!mimetype || !navigator.mediaDevices?.getUserMedia) {
+      logger.warn('Microphone capture not supported by this browser');
+      this.setMicrophoneState('unavailable');
+      return;
+    }
+
+    const request = ++this.microphoneRequest;
+    this.setMicrophoneState('requesting');
+
+    // AudioRecorder swallows the reason getUserMedia failed, so ask once up
+    // front to tell a denied permission apart from a missing device
+    try {
+      const media = await navigator.mediaDevices.getUserMedia({ audio: true });
+      media.getTracks().forEach((track) => track.stop());
+    } catch (error) {
+      const denied = error instanceof DOMException &&
+        (error.name === 'NotAllowedError' || error.name === 'SecurityError');
+      logger.warn('Microphone access failed', { denied, error });
+      if (request === this.microphoneRequest) {
+        this.setMicrophoneState(denied ? 'denied' : 'unavailable');
+      }
+      return;
+    }
+
+    // Turned off or torn down while the permission prompt was open
+    if (request !== this.microphoneRequest || !this.client) {
+      return;
+    }
+
+    const stream = this.client.createAudioStream(mimetype);
+    const recorder = Guacamole.AudioRecorder.getInstance(stream, mimetype);
+
+    if (!recorder) {
+      stream.sendEnd();
+      this.setMicrophoneState('unavailable');
+      return;
+    }
+
+    recorder.onclose = () => {
+      logger.info('Microphone stream closed by server');
+      this.releaseMicrophone('off');
+    };
+
+    // Also raised when guacd rejects the stream, e.g. audio input disabled
+    recorder.onerror = () => {
+      logger.warn('Microphone stream failed');
+      this.releaseMicrophone('unavailable');
+    };
+
+    this.microphoneStream = stream;
+    this.recorder = recorder;
+    this.setMicrophoneState('on');
+
+    logger.info('Microphone stream opened', { mimetype });
+  }
+
+  /**
+   * AudioRecorder has no stop method; it only stops capturing when the
+   * server closes the stream, so deliver that ack to it locally.
+   */
+  private disableMicrophone(): void {
+    if (this.microphone === 'requesting') {
+      this.microphoneRequest++;
+      this.setMicrophoneState('off');
+      return;
+    }
+
+    if (!this.microphoneStream) {
+      if (this.microphone !== 'off') {
+        this.setMicrophoneState('off');
+      }
+      return;
+    }
+
+    const stream = this.microphoneStream;
+    this.releaseMicrophone('off');
+
+    try {
+      stream.onack?.(new Guacamole.Status(GuacamoleStatusCode.RESOURCE_CLOSED, 'Microphone disabled'));
+    } catch (error) {
+      logger.debug('Failed to close microphone stream', error);
+    }
+
+    logger.info('Microphone disabled');
+  }
+
+  private releaseMicrophone(state: MicrophoneState): void {
+    if (this.recorder) {
+      this.recorder.onclose = null;
+      this.recorder.onerror = null;
+    }
+    this.recorder = null;
+    this.microphoneStream = null;
+    this.setMicrophoneState(state);
+  }
+
+  private setMicrophoneState(state: MicrophoneState): void {
+    this.microphone = state;
+    this.notifyChange();
+  }
+
+  getState(): AudioState {
+    return {
+      muted: this.muted,
+      playbackBlocked: this.isPlaybackBlocked(),
+      microphone: this.microphone,
+    };
+  }
+
+  onChange(callback: (state: AudioState) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange = (): void => {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getState());
+    }
+  };
+
+  destroy(): void {
+    this.disableMicrophone();
+    this.stopWatchingForUnlock();
+
+    if (this.context) {
+      this.context.removeEventListener('statechange', this.notifyChange);
+    }
+
+    if (this.client) {
+      this.client.onaudio = null;
+    }
+
+    this.onChangeCallback = null;
+    this.client = null;
+    this.context = null;
+    logger.info('AudioManager destroyed');
+  }
+}
@@ -0,0 +1,75 @@
+import { createLogger } from '../utils/logger';
+import { ClipboardFlow } from './ClipboardPolicy';
+
+const logger = createLogger('ClipboardHistory');
+
+export interface ClipboardEntry {
+  id: number;
+  flow: ClipboardFlow;
+  mimetype: string;
+  // Plain text of the content, null for images
+  text: string | null;
+  size: number;
+  timestamp: number;
+}
+
+export interface ClipboardHistoryConfig {
+  maxEntries: number;
+}
+
+/**
+ * Recent clipboard transfers, newest first. Kept in memory only so copied
+ * secrets never outlive the page.
+ */
+export class ClipboardHistory {
+  private entries: ClipboardEntry[] = [];
+  private nextId: number = 1;
+
+  private onChangeCallback: ((entries: ClipboardEntry[]) => void) | null = null;
+
+  private config: ClipboardHistoryConfig = {
+    maxEntries: 50,
+  };
+
+  constructor(config?: Partial<ClipboardHistoryConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    logger.info('ClipboardHistory initialized', this.config);
+  }
+
+  add(flow: ClipboardFlow, text: string | null, mimetype: string, size: number): void {
+    this.entries = [
+      { id: this.nextId++, flow, mimetype, text, size, timestamp: Date.now() },
+      ...this.entries,
+    ].slice(0, this.config.maxEntries);
+
+    this.notifyChange();
+  }
+
+  getEntries(): ClipboardEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notifyChange();
+  }
+
+  onChange(callback: (entries: ClipboardEntry[]) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getEntries());
+    }
+  }
+
+  destroy(): void {
+    this.entries = [];
+    this.onChangeCallback = null;
+    logger.info('ClipboardHistory destroyed');
+  }
+}
@@ -1,5 +1,41 @@
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
 import Guacamole from 'guacamole-common-js'; // Add this import
+import {
+  ClipboardPolicy,
+  ClipboardFlow,
+  ClipboardNotice,
+  DEFAULT_CLIPBOARD_POLICY,
+  allowsFlow,
+  redactText,
+} from './ClipboardPolicy';
+
+const logger = createLogger('ClipboardManager');
+
+export type ClipboardData = string | Blob;
+
+export interface ClipboardConfig {
+  // Formats besides text/plain exchanged with the remote clipboard
+  richMimetypes: string[];
+  policy: ClipboardPolicy;
+  // Read the local clipboard every second and on window focus
+  polling: boolean;
+}
+
+export interface ClipboardSyncStatus {
+  polling: boolean;
+  // Whether the browser lets the page read the clipboard, null until tried
+  readable: boolean | null;
+}
+
+/**
+ * Plain text rendering of HTML, kept alongside rich clipboard contents for
+ * applications that only paste text.
+ */
+const htmlToText = (html: string): string =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+
+const byteSize = (data: ClipboardData): number =>
+  typeof data === 'string' ? new TextEncoder().encode(data).length : data.size;
 
 export class ClipboardManager {
   private client: any;
@@ -7,18 +43,116 @@ export class ClipboardManager {
   private lastRemoteClipboard: string = '';
   private clipboardCheckInterval: number | null = null;
   private isMonitoring: boolean = false;
+  private readable: boolean | null = null;
+
+  private onRemoteClipboardCallback: ((data: ClipboardData, mimetype: string) => void) | null = null;
+  private onPolicyNoticeCallback: ((notice: ClipboardNotice) => void) | null = null;
+  private onTransferCallback:
+    | ((flow: ClipboardFlow, text: string | null, mimetype: string, size: number) => void)
+    | null = null;
+  private onSyncStatusCallback: ((status: ClipboardSyncStatus) => void) | null = null;
 
-  constructor(client: any) {
+  private config: ClipboardConfig = {
+    richMimetypes: ['image/png', 'text/html'],
+    policy: DEFAULT_CLIPBOARD_POLICY,
+    polling: true,
+  };
+
+  constructor(client: any, config?: Partial<ClipboardConfig>) {
     this.client = client;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
     this.setupRemoteClipboardHandler();
-    logger.info('ClipboardManager initialized');
+    logger.info('ClipboardManager initialized', this.config);
+  }
+
+  /**
+   * Runs data through the clipboard policy, returning what may be copied or
+   * null when the transfer is blocked.
+   *
+   * With redaction rules, only text leaves: HTML can hide a match behind tags
+   * or entities, so it is reduced to the text it renders, redacted and sent as
+   * text/plain. Images cannot be inspected and are blocked.
+   */
+  private applyPolicy(
+    flow: ClipboardFlow,
+    data: ClipboardData,
+    mimetype: string
+  ): { data: ClipboardData; mimetype: string } | null {
+    const policy = this.config.policy;
+    const target = flow === 'local-to-remote' ? 'the remote desktop' : 'this computer';
+
+    if (!allowsFlow(policy, flow)) {
+      logger.info('Clipboard transfer blocked by policy', { flow, mimetype });
+      this.notifyPolicy({ flow, action: 'blocked', message: `Copying to ${target} is disabled for this connection` });
+      return null;
+    }
+
+    const size = byteSize(data);
+    if (policy.maxBytes !== null && size > policy.maxBytes) {
+      logger.info('Clipboard transfer over size limit', { flow, mimetype, size, maxBytes: policy.maxBytes });
+      this.notifyPolicy({
+        flow,
+        action: 'blocked',
+        message: `Clipboard content is larger than the ${Math.ceil(policy.maxBytes / 1024)} KB limit and was not copied to ${target}`,
+      });
+      return null;
+    }
+
+    if (policy.redactions.length === 0) {
+      return { data, mimetype };
+    }
+
+    if (typeof data !== 'string') {
+      logger.info('Clipboard image blocked by redaction rules', { flow, mimetype });
+      this.notifyPolicy({
+        flow,
+        action: 'blocked',
+        message: `Images cannot be checked for sensitive data and were not copied to ${target}`,
+      });
+      return null;
+    }
+
+    const plain = mimetype === 'text/html' ? htmlToText(data) : data;
+    const { text, matched } = redactText(plain, policy.redactions);
+    if (matched.length > 0) {
+      logger.info('Clipboard content redacted', { flow, mimetype, rules: matched });
+      this.notifyPolicy({ flow, action: 'redacted', message: `Removed ${matched.join(', ')} before copying to ${target}` });
+    }
+
+    return { data: text, mimetype: 'text/plain' };
+  }
+
+  private notifyPolicy(notice: ClipboardNotice): void {
+    if (this.onPolicyNoticeCallback) {
+      this.onPolicyNoticeCallback(notice);
+    }
+  }
+
+  /**
+   * Whether the browser can put the given format on the local clipboard.
+   */
+  private canWriteLocal(mimetype: string): boolean {
+    if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+      return false;
+    }
+    return typeof ClipboardItem.supports === 'function' ? ClipboardItem.supports(mimetype) : true;
   }
 
   private setupRemoteClipboardHandler(): void {
     this.client.onclipboard = (stream: any, mimetype: string) => {
       logger.debug('Receiving remote clipboard data', { mimetype });
 
-      if (mimetype === 'text/plain') {
+      if (this.config.richMimetypes.includes(mimetype)) {
+        const reader = new Guacamole.BlobReader(stream, mimetype);
+
+        reader.onend = () => {
+          this.receiveRich(reader.getBlob(), mimetype);
+        };
+      } else if (mimetype === 'text/plain') {
         const reader = new Guacamole.StringReader(stream);
         let clipboardData = '';
 
@@ -27,13 +161,78 @@ export class ClipboardManager {
         };
 
         reader.onend = () => {
-          this.lastRemoteClipboard = clipboardData;
-          this.updateLocalClipboard(clipboardData);
+          const allowed = this.applyPolicy('remote-to-local', clipboardData, mimetype);
+          if (allowed && typeof allowed.data === 'string') {
+            this.receiveText(allowed.data);
+          }
         };
+      } else {
+        logger.warn('Ignoring unsupported remote clipboard format', { mimetype });
       }
     };
   }
 
+  private receiveText(text: string): void {
+    this.lastRemoteClipboard = text;
+    this.updateLocalClipboard(text);
+    this.notifyTransfer('remote-to-local', text, 'text/plain', byteSize(text));
+
+    if (this.onRemoteClipboardCallback) {
+      this.onRemoteClipboardCallback(text, 'text/plain');
+    }
+  }
+
+  private async receiveRich(received: Blob, mimetype: string): Promise<void> {
+    const allowed = this.applyPolicy(
+      'remote-to-local',
+      mimetype === 'text/html' ? await received.text() : received,
+      mimetype
+    );
+    if (allowed === null) {
+      return;
+    }
+
+    // Reduced to text by the redaction rules
+    if (allowed.mimetype === 'text/plain' && typeof allowed.data === 'string') {
+      this.receiveText(allowed.data);
+      return;
+    }
+
+    const data = allowed.data;
+    const blob = typeof data === 'string' ? new Blob([data], { type: mimetype }) : data;
+    const text = typeof data === 'string' ? htmlToText(data) : '';
+    this.lastRemoteClipboard = text;
+
+    if (this.canWriteLocal(mimetype)) {
+      try {
+        const items: Record<string, Blob> = { [mimetype]: blob };
+        if (text) {
+          items['text/plain'] = new Blob([text], { type: 'text/plain' });
+        }
+
+        await navigator.clipboard.write([new ClipboardItem(items)]);
+        this.lastLocalClipboard = text;
+        logger.debug('Local clipboard updated with rich content', { mimetype, size: blob.size });
+      } catch (error) {
+        logger.warn('Failed to write rich clipboard content', { mimetype, error });
+        if (text) {
+          this.updateLocalClipboard(text);
+        }
+      }
+    } else if (text) {
+      logger.debug('Rich clipboard not supported locally, falling back to text', { mimetype });
+      this.updateLocalClipboard(text);
+    } else {
+      logger.warn('Local clipboard cannot hold remote content', { mimetype });
+    }
+
+    this.notifyTransfer('remote-to-local', text || null, mimetype, blob.size);
+
+    if (this.onRemoteClipboardCallback) {
+      this.onRemoteClipboardCallback(blob, mimetype);
+    }
+  }
+
   private async updateLocalClipboard(text: string): Promise<void> {
     try {
       if (navigator.clipboard && navigator.clipboard.writeText) {
@@ -75,33 +274,85 @@ export class ClipboardManager {
   }
 
   private async checkLocalClipboard(): Promise<void> {
+    // Do not even read the local clipboard when nothing may be sent
+    if (!allowsFlow(this.config.policy, 'local-to-remote')) {
+      return;
+    }
+
     try {
       if (navigator.clipboard && navigator.clipboard.readText) {
         const text = await navigator.clipboard.readText();
+        this.setReadable(true);
 
         if (text && text !== this.lastLocalClipboard && text !== this.lastRemoteClipboard) {
           this.lastLocalClipboard = text;
           this.sendToRemote(text);
         }
+      } else {
+        this.setReadable(false);
       }
     } catch (error) {
       logger.debug('Cannot read clipboard (likely no permission)', error);
+      this.setReadable(false);
+    }
+  }
+
+  private setReadable(readable: boolean): void {
+    if (this.readable !== readable) {
+      this.readable = readable;
+      this.notifySyncStatus();
     }
   }
 
-  private sendToRemote(text: string): void {
-    if (!this.client || !text) {
+  /**
+   * Sends text typed or edited by the user straight to the remote clipboard,
+   * for browsers where reading the local clipboard is not allowed.
+   */
+  sendText(text: string): void {
+    this.sendToRemote(text);
+  }
+
+  private sendToRemote(original: ClipboardData, originalMimetype: string = 'text/plain'): void {
+    if (!this.client || !original) {
+      return;
+    }
+
+    const allowed = this.applyPolicy('local-to-remote', original, originalMimetype);
+    if (!allowed || !allowed.data) {
       return;
     }
 
+    // The policy may have reduced rich content to text
+    const { data, mimetype } = allowed;
+
     try {
-      const stream = this.client.createArgumentValueStream('text/plain', 'clipboard');
+      const stream = this.client.createClipboardStream(mimetype);
 
-      const writer = new Guacamole.StringWriter(stream);
-      writer.sendText(text);
-      writer.sendEnd();
+      this.notifyTransfer(
+        'local-to-remote',
+        typeof data !== 'string' ? null : mimetype === 'text/html' ? htmlToText(data) : data,
+        mimetype,
+        byteSize(data)
+      );
 
-      logger.debug('Clipboard data sent to remote', { length: text.length });
+      if (typeof data === 'string') {
+        const writer = new Guacamole.StringWriter(stream);
+        writer.sendText(data);
+        writer.sendEnd();
+
+        logger.debug('Clipboard data sent to remote', { mimetype, length: data.length });
+      } else {
+        const writer = new Guacamole.BlobWriter(stream);
+        writer.oncomplete = () => {
+          writer.sendEnd();
+          logger.debug('Clipboard data sent to remote', { mimetype, size: data.size });
+        };
+        writer.onerror = (_blob: Blob, _offset: number, error: unknown) => {
+          logger.error('Failed to read local clipboard content', error);
+          writer.sendEnd();
+        };
+        writer.sendBlob(data);
+      }
     } catch (error) {
       logger.error('Failed to send clipboard to remote', error);
     }
@@ -114,14 +365,56 @@ export class ClipboardManager {
 
     this.isMonitoring = true;
 
+    if (this.config.polling) {
+      this.startPolling();
+    }
+    window.addEventListener('paste', this.onPaste);
+
+    logger.info('Clipboard monitoring started', { polling: this.config.polling });
+  }
+
+  private startPolling(): void {
     this.clipboardCheckInterval = window.setInterval(() => {
       this.checkLocalClipboard();
     }, 1000);
 
     window.addEventListener('focus', this.onWindowFocus);
-    window.addEventListener('paste', this.onPaste);
+  }
 
-    logger.info('Clipboard monitoring started');
+  private stopPolling(): void {
+    if (this.clipboardCheckInterval !== null) {
+      window.clearInterval(this.clipboardCheckInterval);
+      this.clipboardCheckInterval = null;
+    }
+
+    window.removeEventListener('focus', this.onWindowFocus);
+  }
+
+  /**
+   * Background reads fail without clipboard permission (Firefox, plain HTTP),
+   * so users can switch them off and rely on paste events and sendText.
+   */
+  setPolling(enabled: boolean): void {
+    if (this.config.polling === enabled) {
+      return;
+    }
+
+    this.config.polling = enabled;
+
+    if (this.isMonitoring) {
+      if (enabled) {
+        this.startPolling();
+      } else {
+        this.stopPolling();
+      }
+    }
+
+    logger.info('Clipboard polling changed', { polling: enabled });
+    this.notifySyncStatus();
+  }
+
+  getSyncStatus(): ClipboardSyncStatus {
+    return { polling: this.config.polling, readable: this.readable };
   }
 
   stopMonitoring(): void {
@@ -131,12 +424,7 @@ export class ClipboardManager {
 
     this.isMonitoring = false;
 
-    if (this.clipboardCheckInterval !== null) {
-      window.clearInterval(this.clipboardCheckInterval);
-      this.clipboardCheckInterval = null;
-    }
-
-    window.removeEventListener('focus', this.onWindowFocus);
+    this.stopPolling();
     window.removeEventListener('paste', this.onPaste);
 
     logger.info('Clipboard monitoring stopped');
@@ -147,17 +435,80 @@ export class ClipboardManager {
   };
 
   private onPaste = async (event: ClipboardEvent): Promise<void> => {
+    // Pasting into the page's own fields stays local
+    const target = event.target;
+    if (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLElement && target.isContentEditable)
+    ) {
+      return;
+    }
+
     event.preventDefault();
 
-    const text = event.clipboardData?.getData('text/plain');
+    const clipboardData = event.clipboardData;
+    if (!clipboardData) {
+      return;
+    }
+
+    const text = clipboardData.getData('text/plain');
     if (text) {
       this.lastLocalClipboard = text;
+    }
+
+    // The remote clipboard holds a single format, so send the richest one
+    const image = Array.from(clipboardData.files).find((file) => this.config.richMimetypes.includes(file.type));
+    if (image) {
+      this.sendToRemote(image, image.type);
+      return;
+    }
+
+    const html = clipboardData.getData('text/html');
+    if (html && this.config.richMimetypes.includes('text/html')) {
+      this.sendToRemote(html, 'text/html');
+      return;
+    }
+
+    if (text) {
       this.sendToRemote(text);
     }
   };
 
+  onRemoteClipboard(callback: (data: ClipboardData, mimetype: string) => void): void {
+    this.onRemoteClipboardCallback = callback;
+  }
+
+  onPolicyNotice(callback: (notice: ClipboardNotice) => void): void {
+    this.onPolicyNoticeCallback = callback;
+  }
+
+  onTransfer(callback: (flow: ClipboardFlow, text: string | null, mimetype: string, size: number) => void): void {
+    this.onTransferCallback = callback;
+  }
+
+  private notifyTransfer(flow: ClipboardFlow, text: string | null, mimetype: string, size: number): void {
+    if (this.onTransferCallback) {
+      this.onTransferCallback(flow, text, mimetype, size);
+    }
+  }
+
+  onSyncStatus(callback: (status: ClipboardSyncStatus) => void): void {
+    this.onSyncStatusCallback = callback;
+  }
+
+  private notifySyncStatus(): void {
+    if (this.onSyncStatusCallback) {
+      this.onSyncStatusCallback(this.getSyncStatus());
+    }
+  }
+
   destroy(): void {
     this.stopMonitoring();
+    this.onRemoteClipboardCallback = null;
+    this.onPolicyNoticeCallback = null;
+    this.onTransferCallback = null;
+    this.onSyncStatusCallback = null;
     this.client = null;
     logger.info('ClipboardManager destroyed');
   }
@@ -0,0 +1,182 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ClipboardPolicy');
+
+export type ClipboardDirection = 'both' | 'local-to-remote' | 'remote-to-local' | 'none';
+
+export type ClipboardFlow = 'local-to-remote' | 'remote-to-local';
+
+export interface ClipboardRedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  replacement?: string;
+}
+
+export interface ClipboardPolicy {
+  direction: ClipboardDirection;
+  // Largest payload allowed in either direction, null for no limit
+  maxBytes: number | null;
+  redactions: ClipboardRedactionRule[];
+}
+
+export interface ClipboardNotice {
+  flow: ClipboardFlow;
+  action: 'blocked' | 'redacted';
+  message: string;
+}
+
+export const DEFAULT_CLIPBOARD_POLICY: ClipboardPolicy = {
+  direction: 'both',
+  maxBytes: null,
+  redactions: [],
+};
+
+// Rules a policy can reference by name instead of spelling out the pattern
+export const CLIPBOARD_REDACTION_PRESETS: Record<string, ClipboardRedactionRule> = {
+  'credit-card': {
+    name: 'credit card number',
+    pattern: '\\b\\d(?:[ -]?\\d){12,18}\\b',
+    replacement: '[REDACTED CARD]',
+  },
+  cpf: {
+    name: 'CPF',
+    pattern: '\\b\\d{3}\\.?\\d{3}\\.?\\d{3}-?\\d{2}\\b',
+    replacement: '[REDACTED CPF]',
+  },
+};
+
+const DIRECTIONS: ClipboardDirection[] = ['both', 'local-to-remote', 'remote-to-local', 'none'];
+
+const parseRedactionRule = (value: unknown): ClipboardRedactionRule | null => {
+  if (typeof value === 'string') {
+    const preset = CLIPBOARD_REDACTION_PRESETS[value];
+    if (!preset) {
+      logger.warn('Unknown clipboard redaction preset', { name: value });
+    }
+    return preset ?? null;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.pattern !== 'string') {
+    return null;
+  }
+
+  const flags = typeof rule.flags === 'string' ? rule.flags : undefined;
+
+  try {
+    new RegExp(rule.pattern, flags);
+  } catch (error) {
+    logger.warn('Ignoring invalid clipboard redaction pattern', { pattern: rule.pattern, error });
+    return null;
+  }
+
+  return {
+    name: typeof rule.name === 'string' ? rule.name : rule.pattern,
+    pattern: rule.pattern,
+    flags,
+    replacement: typeof rule.replacement === 'string' ? rule.replacement : undefined,
+  };
+};
+
+/**
+ * Reads a policy from configuration or a token claim, given either as an
+ * object or a JSON string. Unknown or malformed fields are dropped so a bad
+ * claim cannot loosen the defaults by accident.
+ */
+export const parseClipboardPolicy = (value: unknown): Partial<ClipboardPolicy> | null => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      logger.warn('Clipboard policy is not valid JSON', error);
+      return null;
+    }
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  const policy: Partial<ClipboardPolicy> = {};
+
+  if (DIRECTIONS.includes(source.direction as ClipboardDirection)) {
+    policy.direction = source.direction as ClipboardDirection;
+  }
+
+  if (typeof source.maxBytes === 'number' && source.maxBytes >= 0) {
+    policy.maxBytes = source.maxBytes;
+  } else if (source.maxBytes === null) {
+    policy.maxBytes = null;
+  }
+
+  if (Array.isArray(source.redactions)) {
+    policy.redactions = source.redactions
+      .map(parseRedactionRule)
+      .filter((rule): rule is ClipboardRedactionRule => rule !== null);
+  }
+
+  return policy;
+};
+
+const directionAllows = (direction: ClipboardDirection, flow: ClipboardFlow): boolean =>
+  direction === 'both' || direction === flow;
+
+export const allowsFlow = (policy: ClipboardPolicy, flow: ClipboardFlow): boolean =>
+  directionAllows(policy.direction, flow);
+
+/**
+ * Combines policies so that the strictest wins on every field: a flow is
+ * allowed only if every policy allows it, the smallest size limit applies,
+ * and every redaction rule is kept. A token claim can only tighten the
+ * configured policy, never loosen it.
+ */
+export const mergeClipboardPolicies = (
+  ...policies: Array<Partial<ClipboardPolicy> | null | undefined>
+): ClipboardPolicy =>
+  policies.reduce<ClipboardPolicy>((merged, policy) => {
+    if (!policy) {
+      return merged;
+    }
+
+    const direction = policy.direction ?? 'both';
+    const bothAllow = (flow: ClipboardFlow) =>
+      directionAllows(merged.direction, flow) && directionAllows(direction, flow);
+    const toRemote = bothAllow('local-to-remote');
+    const toLocal = bothAllow('remote-to-local');
+
+    const limits = [merged.maxBytes, policy.maxBytes ?? null].filter((limit): limit is number => limit !== null);
+
+    return {
+      direction: toRemote && toLocal ? 'both' : toRemote ? 'local-to-remote' : toLocal ? 'remote-to-local' : 'none',
+      maxBytes: limits.length > 0 ? Math.min(...limits) : null,
+      redactions: [...merged.redactions, ...(policy.redactions ?? [])],
+    };
+  }, { ...DEFAULT_CLIPBOARD_POLICY });
+
+/**
+ * Applies every redaction rule, returning the names of those that matched.
+ */
+export const redactText = (
+  text: string,
+  rules: ClipboardRedactionRule[]
+): { text: string; matched: string[] } => {
+  const matched: string[] = [];
+
+  const redacted = rules.reduce((current, rule) => {
+    const flags = rule.flags?.includes('g') ? rule.flags : `${rule.flags ?? ''}g`;
+    const result = current.replace(new RegExp(rule.pattern, flags), rule.replacement ?? '[REDACTED]');
+
+    if (result !== current) {
+      matched.push(rule.name);
+    }
+    return result;
+  }, text);
+
+  return { text: redacted, matched };
+};
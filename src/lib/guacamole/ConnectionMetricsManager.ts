@@ -0,0 +1,242 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ConnectionMetricsManager');
+
+export type ConnectionQuality = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface ConnectionMetrics {
+  timestamp: number;
+  // Sync-based: how late the server's sync instructions arrive compared to
+  // the fastest one in the window. This is added one-way delay (queueing,
+  // congestion), not round-trip time: the tunnel keeps its ping echoes to
+  // itself and guacd does not answer the client's syncs, so no RTT is visible.
+  latencyVariationMs: number | null;
+  jitterMs: number | null;
+  framesPerSecond: number;
+  bytesPerSecond: number;
+  qualityScore: number | null;
+  quality: ConnectionQuality;
+}
+
+export interface MetricsConfig {
+  sampleIntervalMs: number;
+  historySize: number;
+  latencyWindowSize: number;
+  scoreSmoothing: number;
+}
+
+export class ConnectionMetricsManager {
+  private tunnel: any;
+  private originalOnInstruction: ((opcode: string, parameters: string[]) => void) | null = null;
+
+  private sampleTimer: number | null = null;
+  private lastSampleAt: number = 0;
+  private frameCount: number = 0;
+  private byteCount: number = 0;
+
+  // (local arrival - server timestamp) for recent syncs. The smallest offset
+  // in the window approximates clock skew plus the fastest delivery seen.
+  private syncOffsets: number[] = [];
+  private variationSamples: number[] = [];
+
+  private smoothedScore: number | null = null;
+  private current: ConnectionMetrics | null = null;
+  private history: ConnectionMetrics[] = [];
+  private isActive: boolean = false;
+
+  private onSampleCallback: ((metrics: ConnectionMetrics) => void) | null = null;
+
+  private config: MetricsConfig = {
+    sampleIntervalMs: 1000,
+    historySize: 60,
+    latencyWindowSize: 30,
+    scoreSmoothing: 0.3,
+  };
+
+  constructor(tunnel: any, config?: Partial<MetricsConfig>) {
+    this.tunnel = tunnel;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.wrapTunnel();
+    logger.info('ConnectionMetricsManager initialized', this.config);
+  }
+
+  /**
+   * Guacamole.Client owns tunnel.oninstruction, so wrap it to count inbound
+   * bytes without changing what the client sees.
+   */
+  private wrapTunnel(): void {
+    this.originalOnInstruction = this.tunnel.oninstruction;
+
+    this.tunnel.oninstruction = (opcode: string, parameters: string[]) => {
+      this.byteCount += this.measureInstruction(opcode, parameters);
+
+      if (this.originalOnInstruction) {
+        this.originalOnInstruction.call(this.tunnel, opcode, parameters);
+      }
+    };
+  }
+
+  private measureInstruction(opcode: string, parameters: string[]): number {
+    // Wire format is LENGTH.VALUE for each element plus one separator
+    let size = String(opcode.length).length + opcode.length + 2;
+    for (const value of parameters) {
+      size += String(value.length).length + value.length + 2;
+    }
+    return size;
+  }
+
+  start(): void {
+    if (this.isActive) {
+      return;
+    }
+
+    this.isActive = true;
+    this.lastSampleAt = performance.now();
+    this.sampleTimer = window.setInterval(() => this.takeSample(), this.config.sampleIntervalMs);
+
+    logger.info('ConnectionMetricsManager started');
+  }
+
+  stop(): void {
+    if (!this.isActive) {
+      return;
+    }
+
+    this.isActive = false;
+
+    if (this.sampleTimer !== null) {
+      window.clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+
+    logger.info('ConnectionMetricsManager stopped');
+  }
+
+  recordFrame(): void {
+    this.frameCount++;
+  }
+
+  recordSync(serverTimestamp: number): void {
+    const offset = Date.now() - serverTimestamp;
+
+    this.syncOffsets.push(offset);
+    if (this.syncOffsets.length > this.config.latencyWindowSize) {
+      this.syncOffsets.shift();
+    }
+
+    // How far this sync arrived behind the best one in the window
+    const baseline = Math.min(...this.syncOffsets);
+    this.variationSamples.push(offset - baseline);
+    if (this.variationSamples.length > this.config.latencyWindowSize) {
+      this.variationSamples.shift();
+    }
+  }
+
+  private takeSample(): void {
+    const now = performance.now();
+    const elapsedSeconds = Math.max((now - this.lastSampleAt) / 1000, 0.001);
+    this.lastSampleAt = now;
+
+    const variationMs = this.average(this.variationSamples);
+    const jitterMs = this.standardDeviation(this.variationSamples);
+    const qualityScore = this.updateScore(variationMs, jitterMs);
+
+    const metrics: ConnectionMetrics = {
+      timestamp: Date.now(),
+      latencyVariationMs: variationMs === null ? null : Math.round(variationMs),
+      jitterMs: jitterMs === null ? null : Math.round(jitterMs),
+      framesPerSecond: Math.round(this.frameCount / elapsedSeconds),
+      bytesPerSecond: Math.round(this.byteCount / elapsedSeconds),
+      qualityScore: qualityScore === null ? null : Math.round(qualityScore),
+      quality: this.classify(qualityScore),
+    };
+
+    this.frameCount = 0;
+    this.byteCount = 0;
+
+    this.current = metrics;
+    this.history.push(metrics);
+    if (this.history.length > this.config.historySize) {
+      this.history.shift();
+    }
+
+    logger.debug('Connection metrics sampled', metrics);
+
+    if (this.onSampleCallback) {
+      this.onSampleCallback(metrics);
+    }
+  }
+
+  /**
+   * Frame rate and bandwidth drop to zero on an idle desktop, so only delay
+   * variation and jitter feed the score.
+   */
+  private updateScore(variationMs: number | null, jitterMs: number | null): number | null {
+    if (variationMs === null) {
+      return this.smoothedScore;
+    }
+
+    const latencyScore = Math.max(0, 100 - variationMs / 4);
+    const jitterScore = Math.max(0, 100 - (jitterMs ?? 0) / 2);
+    const instant = latencyScore * 0.7 + jitterScore * 0.3;
+
+    this.smoothedScore = this.smoothedScore === null
+      ? instant
+      : this.smoothedScore + (instant - this.smoothedScore) * this.config.scoreSmoothing;
+
+    return this.smoothedScore;
+  }
+
+  private classify(score: number | null): ConnectionQuality {
+    if (score === null) return 'unknown';
+    if (score >= 80) return 'excellent';
+    if (score >= 60) return 'good';
+    if (score >= 40) return 'fair';
+    return 'poor';
+  }
+
+  private average(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private standardDeviation(values: number[]): number | null {
+    const mean = this.average(values);
+    if (mean === null) {
+      return null;
+    }
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance);
+  }
+
+  getMetrics(): ConnectionMetrics | null {
+    return this.current;
+  }
+
+  getHistory(): ConnectionMetrics[] {
+    return [...this.history];
+  }
+
+  onSample(callback: (metrics: ConnectionMetrics) => void): void {
+    this.onSampleCallback = callback;
+  }
+
+  destroy(): void {
+    this.stop();
+
+    if (this.tunnel) {
+      this.tunnel.oninstruction = this.originalOnInstruction;
+    }
+
+    this.onSampleCallback = null;
+    this.originalOnInstruction = null;
+    this.tunnel = null;
+    logger.info('ConnectionMetricsManager destroyed');
+  }
+}
@@ -0,0 +1,213 @@
+import Guacamole from 'guacamole-common-js';
+import { LogLevel, logBuffer, redact } from '../utils/logger';
+import { CLIENT_VERSION } from '../version';
+import { GuacamoleError } from './GuacamoleError';
+import { ResolutionHistoryEntry } from './ResolutionManager';
+import { FullscreenManager, NavigatorKeyboard } from './FullscreenManager';
+
+export interface StateTransition {
+  timestamp: string;
+  state: string;
+  transport: string | null;
+}
+
+export interface StatusEntry {
+  timestamp: string;
+  code: string | null;
+  category: string;
+  detail: string;
+}
+
+export interface BrowserCapabilities {
+  userAgent: string;
+  language: string;
+  secureContext: boolean;
+  online: boolean;
+  clipboardRead: boolean;
+  clipboardWrite: boolean;
+  clipboardItem: boolean;
+  resizeObserver: boolean;
+  webAudio: boolean;
+  microphone: boolean;
+  webSocket: boolean;
+  fullscreen: boolean;
+  pointerLock: boolean;
+  keyboardLock: boolean;
+  maxTouchPoints: number;
+  devicePixelRatio: number;
+  screen: string;
+  viewport: string;
+  audioPlaybackTypes: string[];
+  videoTypes: string[];
+}
+
+export interface DiagnosticsBundle {
+  format: 'guacamole-diagnostics/1';
+  generatedAt: string;
+  clientVersion: string;
+  page: string;
+  connection: Record<string, unknown>;
+  stateTimeline: StateTransition[];
+  statusCodes: StatusEntry[];
+  resolutionHistory: Array<Omit<ResolutionHistoryEntry, 'timestamp'> & { timestamp: string }>;
+  capabilities: BrowserCapabilities;
+  logs: Array<{ timestamp: string; level: string; source: string; message: string; data: unknown[] }>;
+}
+
+export interface DiagnosticsRecorderConfig {
+  maxTransitions: number;
+  maxStatuses: number;
+  maxResolutionEntries: number;
+}
+
+function pushCapped<T>(list: T[], item: T, max: number): void {
+  list.push(item);
+  if (list.length > max) {
+    list.splice(0, list.length - max);
+  }
+}
+
+export function collectBrowserCapabilities(): BrowserCapabilities {
+  const safeTypes = (getTypes: () => string[]): string[] => {
+    try {
+      return getTypes();
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    secureContext: window.isSecureContext,
+    online: navigator.onLine,
+    clipboardRead: typeof navigator.clipboard?.readText === 'function',
+    clipboardWrite: typeof navigator.clipboard?.writeText === 'function',
+    clipboardItem: typeof ClipboardItem !== 'undefined',
+    resizeObserver: typeof ResizeObserver !== 'undefined',
+    webAudio: typeof AudioContext !== 'undefined' || 'webkitAudioContext' in window,
+    microphone: typeof navigator.mediaDevices?.getUserMedia === 'function',
+    webSocket: typeof WebSocket !== 'undefined',
+    fullscreen: FullscreenManager.isSupported(),
+    pointerLock: typeof document.documentElement.requestPointerLock === 'function',
+    keyboardLock: typeof (navigator as Navigator & { keyboard?: NavigatorKeyboard }).keyboard?.lock === 'function',
+    maxTouchPoints: navigator.maxTouchPoints || 0,
+    devicePixelRatio: window.devicePixelRatio || 1,
+    screen: `${window.screen.width}x${window.screen.height}`,
+    viewport: `${window.innerWidth}x${window.innerHeight}`,
+    audioPlaybackTypes: safeTypes(() => Guacamole.AudioPlayer.getSupportedTypes()),
+    videoTypes: safeTypes(() => Guacamole.VideoPlayer.getSupportedTypes()),
+  };
+}
+
+/**
+ * Collects what support needs to investigate a session: state changes,
+ * status codes and resolution changes for the lifetime of a connection,
+ * across reconnects.
+ */
+export class DiagnosticsRecorder {
+  private transitions: StateTransition[] = [];
+  private statuses: StatusEntry[] = [];
+  private resolutionHistory: ResolutionHistoryEntry[] = [];
+
+  private config: DiagnosticsRecorderConfig = {
+    maxTransitions: 100,
+    maxStatuses: 20,
+    maxResolutionEntries: 100,
+  };
+
+  constructor(config?: Partial<DiagnosticsRecorderConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  recordState(state: string, transport: string | null): void {
+    pushCapped(
+      this.transitions,
+      { timestamp: new Date().toISOString(), state, transport },
+      this.config.maxTransitions
+    );
+  }
+
+  recordError(error: GuacamoleError): void {
+    pushCapped(
+      this.statuses,
+      {
+        timestamp: new Date().toISOString(),
+        code: error.getCodeLabel(),
+        category: error.category,
+        detail: error.message,
+      },
+      this.config.maxStatuses
+    );
+  }
+
+  recordResolution(entry: ResolutionHistoryEntry): void {
+    pushCapped(this.resolutionHistory, entry, this.config.maxResolutionEntries);
+  }
+
+  getTransitions(): StateTransition[] {
+    return [...this.transitions];
+  }
+
+  getStatuses(): StatusEntry[] {
+    return [...this.statuses];
+  }
+
+  getResolutionHistory(): ResolutionHistoryEntry[] {
+    return [...this.resolutionHistory];
+  }
+}
+
+/**
+ * Assembles the bundle for a support ticket. The recorder is optional, e.g.
+ * when the token was rejected before any connection was made. The result
+ * goes through log redaction as a whole, connection details included.
+ */
+export function createDiagnosticsBundle(
+  connection: Record<string, unknown> = {},
+  recorder: DiagnosticsRecorder | null = null
+): DiagnosticsBundle {
+  const bundle: DiagnosticsBundle = {
+    format: 'guacamole-diagnostics/1',
+    generatedAt: new Date().toISOString(),
+    clientVersion: CLIENT_VERSION,
+    // Path only; the query string may still hold unrelated parameters
+    page: `${window.location.origin}${window.location.pathname}`,
+    connection,
+    stateTimeline: recorder?.getTransitions() ?? [],
+    statusCodes: recorder?.getStatuses() ?? [],
+    resolutionHistory: (recorder?.getResolutionHistory() ?? []).map((entry) => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp).toISOString(),
+    })),
+    capabilities: collectBrowserCapabilities(),
+    logs: logBuffer.getRecords().map((record) => ({
+      timestamp: new Date(record.timestamp).toISOString(),
+      level: LogLevel[record.level],
+      source: record.source,
+      message: record.message,
+      data: record.data,
+    })),
+  };
+
+  return redact(bundle) as DiagnosticsBundle;
+}
+
+export function downloadDiagnosticsBundle(bundle: DiagnosticsBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const stamp = bundle.generatedAt.replace(/[:.]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `guacamole-diagnostics-${stamp}.json`;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // The browser needs the URL until it has started reading the blob
+  window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
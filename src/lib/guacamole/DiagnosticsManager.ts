@@ -0,0 +1,134 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DiagnosticsManager');
+
+export interface DiagnosticsSnapshot {
+  displayWidth: number;
+  displayHeight: number;
+  containerWidth: number;
+  containerHeight: number;
+  scale: number;
+  devicePixelRatio: number;
+  lastSentSize: { width: number; height: number } | null;
+  pressedKeys: number[];
+  connectionState: string;
+  tunnelState: string;
+  transport: string | null;
+  logLevel: string;
+}
+
+export interface DiagnosticsConfig {
+  visible: boolean;
+  refreshMs: number;
+  // Matched against KeyboardEvent.code with Ctrl+Alt+Shift held
+  hotkeyCode: string;
+}
+
+export class DiagnosticsManager {
+  private collect: () => DiagnosticsSnapshot;
+  private refreshTimer: number | null = null;
+  private visible: boolean = false;
+
+  private onVisibilityChangeCallback: ((visible: boolean) => void) | null = null;
+  private onSnapshotCallback: ((snapshot: DiagnosticsSnapshot) => void) | null = null;
+
+  private config: DiagnosticsConfig = {
+    visible: false,
+    refreshMs: 500,
+    hotkeyCode: 'KeyD',
+  };
+
+  constructor(collect: () => DiagnosticsSnapshot, config?: Partial<DiagnosticsConfig>) {
+    this.collect = collect;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    // Capture phase on window runs before Guacamole.Keyboard sees the event
+    window.addEventListener('keydown', this.onKeyDown, true);
+
+    if (this.config.visible) {
+      this.setVisible(true);
+    }
+
+    logger.info('DiagnosticsManager initialized', this.config);
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (event.ctrlKey && event.altKey && event.shiftKey && event.code === this.config.hotkeyCode) {
+      event.preventDefault();
+      event.stopPropagation();
+      this.toggle();
+    }
+  };
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  toggle(): void {
+    this.setVisible(!this.visible);
+  }
+
+  setVisible(visible: boolean): void {
+    if (this.visible === visible) {
+      return;
+    }
+
+    this.visible = visible;
+
+    if (visible) {
+      this.refresh();
+      this.refreshTimer = window.setInterval(() => this.refresh(), this.config.refreshMs);
+    } else {
+      this.stopRefreshing();
+    }
+
+    logger.info('Debug HUD visibility changed', { visible });
+
+    if (this.onVisibilityChangeCallback) {
+      this.onVisibilityChangeCallback(visible);
+    }
+  }
+
+  private stopRefreshing(): void {
+    if (this.refreshTimer !== null) {
+      window.clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private refresh(): void {
+    try {
+      const snapshot = this.collect();
+      if (this.onSnapshotCallback) {
+        this.onSnapshotCallback(snapshot);
+      }
+    } catch (error) {
+      logger.debug('Failed to collect diagnostics', error);
+    }
+  }
+
+  onVisibilityChange(callback: (visible: boolean) => void): void {
+    this.onVisibilityChangeCallback = callback;
+  }
+
+  onSnapshot(callback: (snapshot: DiagnosticsSnapshot) => void): void {
+    this.onSnapshotCallback = callback;
+  }
+
+  destroy(): void {
+    this.stopRefreshing();
+    window.removeEventListener('keydown', this.onKeyDown, true);
+
+    if (this.visible && this.onVisibilityChangeCallback) {
+      this.onVisibilityChangeCallback(false);
+    }
+
+    this.visible = false;
+    this.onVisibilityChangeCallback = null;
+    this.onSnapshotCallback = null;
+    logger.info('DiagnosticsManager destroyed');
+  }
+}
@@ -0,0 +1,216 @@
+import { createLogger } from '../utils/logger';
+import Guacamole from 'guacamole-common-js';
+
+const logger = createLogger('DisplayScaleManager');
+
+export type ScaleMode = 'fit' | 'fill' | 'native' | 'zoom';
+
+export interface ScaleState {
+  mode: ScaleMode;
+  // Horizontal display size as a percentage of the remote resolution
+  zoom: number;
+}
+
+export interface DisplayScaleConfig {
+  mode: ScaleMode;
+  // Percentage used by the zoom mode
+  zoom: number;
+  minZoom: number;
+  maxZoom: number;
+}
+
+// Steps for the zoom shortcuts, as in browser zoom
+export const ZOOM_LEVELS = [25, 33, 50, 67, 75, 90, 100, 110, 125, 150, 175, 200, 250, 300, 400];
+
+/**
+ * Owns how the remote display is sized inside its container and translates
+ * pointer positions back into remote coordinates for whichever mode is active.
+ */
+export class DisplayScaleManager {
+  private display: any;
+  private element: HTMLElement;
+  private container: HTMLElement;
+  private resizeObserver: ResizeObserver;
+
+  // Fill stretches each axis on its own, every other mode keeps them equal
+  private scaleX: number = 1;
+  private scaleY: number = 1;
+
+  private onChangeCallback: ((state: ScaleState) => void) | null = null;
+
+  private config: DisplayScaleConfig = {
+    mode: 'fit',
+    zoom: 100,
+    minZoom: 10,
+    maxZoom: 400,
+  };
+
+  constructor(display: any, container: HTMLElement, config?: Partial<DisplayScaleConfig>) {
+    this.display = display;
+    this.element = display.getElement();
+    this.container = container;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    // Fixed-size remotes never resize with the window, so refit here too
+    this.resizeObserver = new ResizeObserver(() => this.apply());
+    this.resizeObserver.observe(this.container);
+
+    // Capture phase on window runs before Guacamole.Keyboard sees the event
+    window.addEventListener('keydown', this.onKeyDown, true);
+
+    logger.info('DisplayScaleManager initialized', this.config);
+  }
+
+  /**
+   * Recomputes the scale, e.g. after the remote resolution changed.
+   */
+  apply(): void {
+    const width = this.display.getWidth();
+    const height = this.display.getHeight();
+
+    if (!width || !height) {
+      return;
+    }
+
+    const containerWidth = this.container.clientWidth;
+    const containerHeight = this.container.clientHeight;
+
+    switch (this.config.mode) {
+      case 'fit':
+        this.scaleX = this.scaleY = Math.min(containerWidth / width, containerHeight / height);
+        break;
+      case 'fill':
+        this.scaleX = containerWidth / width;
+        this.scaleY = containerHeight / height;
+        break;
+      case 'native':
+        this.scaleX = this.scaleY = 1;
+        break;
+      case 'zoom':
+        this.scaleX = this.scaleY = this.config.zoom / 100;
+        break;
+    }
+
+    this.display.scale(this.scaleX);
+
+    // Guacamole.Display only scales uniformly; fill squeezes the height on top
+    const stretched = this.scaleY !== this.scaleX;
+    this.element.style.transformOrigin = stretched ? '0 0' : '';
+    this.element.style.transform = stretched ? `scale(1, ${this.scaleY / this.scaleX})` : '';
+
+    // Auto margins keep the display centred while it fits and let the
+    // container scroll to every edge once it does not
+    const scrollable = this.config.mode === 'native' || this.config.mode === 'zoom';
+    this.container.style.overflow = scrollable ? 'auto' : '';
+    this.container.style.alignItems = scrollable || stretched ? 'flex-start' : '';
+    this.container.style.justifyContent = scrollable || stretched ? 'flex-start' : '';
+    this.element.style.margin = scrollable ? 'auto' : '';
+
+    logger.debug('Display scaled', {
+      mode: this.config.mode,
+      scaleX: this.scaleX,
+      scaleY: this.scaleY,
+      container: `${containerWidth}x${containerHeight}`,
+      display: `${width}x${height}`,
+    });
+
+    this.notifyChange();
+  }
+
+  setMode(mode: ScaleMode): void {
+    this.config.mode = mode;
+    logger.info('Scale mode changed', { mode });
+    this.apply();
+  }
+
+  /**
+   * Switches to the zoom mode at the given percentage.
+   */
+  setZoom(percent: number): void {
+    this.config.zoom = Math.round(Math.min(Math.max(percent, this.config.minZoom), this.config.maxZoom));
+    this.config.mode = 'zoom';
+    this.apply();
+  }
+
+  zoomIn(): void {
+    const current = this.getState().zoom;
+    this.setZoom(ZOOM_LEVELS.find((level) => level > current) ?? this.config.maxZoom);
+  }
+
+  zoomOut(): void {
+    const current = this.getState().zoom;
+    this.setZoom([...ZOOM_LEVELS].reverse().find((level) => level < current) ?? this.config.minZoom);
+  }
+
+  getScale(): number {
+    return this.scaleX;
+  }
+
+  /**
+   * Converts a mouse state in display element pixels, as reported by
+   * Guacamole.Mouse and the touch emulations, into remote coordinates.
+   */
+  toRemoteState(mouseState: any): any {
+    const state = new Guacamole.Mouse.State(mouseState);
+    state.x = mouseState.x / this.scaleX;
+    state.y = mouseState.y / this.scaleY;
+    return state;
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (!(event.ctrlKey && event.altKey && event.shiftKey)) {
+      return;
+    }
+
+    const actions: Record<string, () => void> = {
+      Equal: () => this.zoomIn(),
+      NumpadAdd: () => this.zoomIn(),
+      Minus: () => this.zoomOut(),
+      NumpadSubtract: () => this.zoomOut(),
+      Digit0: () => this.setZoom(100),
+      Numpad0: () => this.setZoom(100),
+      Digit9: () => this.setMode('fit'),
+    };
+
+    const action = actions[event.code];
+    if (action) {
+      event.preventDefault();
+      event.stopPropagation();
+      action();
+    }
+  };
+
+  getState(): ScaleState {
+    return { mode: this.config.mode, zoom: Math.round(this.scaleX * 100) };
+  }
+
+  onChange(callback: (state: ScaleState) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getState());
+    }
+  }
+
+  destroy(): void {
+    this.resizeObserver.disconnect();
+    window.removeEventListener('keydown', this.onKeyDown, true);
+
+    this.element.style.transform = '';
+    this.element.style.transformOrigin = '';
+    this.element.style.margin = '';
+    this.container.style.overflow = '';
+    this.container.style.alignItems = '';
+    this.container.style.justifyContent = '';
+    this.container.scrollLeft = 0;
+    this.container.scrollTop = 0;
+
+    this.onChangeCallback = null;
+    logger.info('DisplayScaleManager destroyed');
+  }
+}
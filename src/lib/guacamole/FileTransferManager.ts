@@ -0,0 +1,401 @@
+import { createLogger } from '../utils/logger';
+import { GuacamoleStatusCode } from './GuacamoleError';
+import Guacamole from 'guacamole-common-js';
+
+const logger = createLogger('FileTransferManager');
+
+export type TransferDirection = 'upload' | 'download';
+export type TransferStatus = 'queued' | 'in-progress' | 'completed' | 'cancelled' | 'error';
+
+export interface FileTransfer {
+  id: string;
+  direction: TransferDirection;
+  filename: string;
+  mimetype: string;
+  size: number | null;
+  transferred: number;
+  bytesPerSecond: number;
+  status: TransferStatus;
+  error?: string;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface FileTransferConfig {
+  maxConcurrentUploads: number;
+  // Bytes read from disk per step; split into protocol blobs by the writer
+  chunkSize: number;
+}
+
+// Opens the output stream for one upload; defaults to client.createFileStream
+export type UploadStreamFactory = (mimetype: string, filename: string) => any;
+
+interface UploadJob {
+  transfer: FileTransfer;
+  file: File;
+  openStream: UploadStreamFactory | null;
+  stream: any;
+  writer: any;
+  offset: number;
+  pendingAcks: number;
+}
+
+interface DownloadJob {
+  transfer: FileTransfer;
+  stream: any;
+  reader: any;
+}
+
+export class FileTransferManager {
+  private client: any;
+  private transfers: Map<string, FileTransfer> = new Map();
+  private uploadQueue: UploadJob[] = [];
+  private activeUploads: Map<string, UploadJob> = new Map();
+  private activeDownloads: Map<string, DownloadJob> = new Map();
+  private nextId: number = 0;
+
+  private onChangeCallback: ((transfers: FileTransfer[]) => void) | null = null;
+
+  private config: FileTransferConfig = {
+    maxConcurrentUploads: 2,
+    chunkSize: Guacamole.ArrayBufferWriter.DEFAULT_BLOB_LENGTH * 8,
+  };
+
+  constructor(client: any, config?: Partial<FileTransferConfig>) {
+    this.client = client;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.setupDownloadHandler();
+    logger.info('FileTransferManager initialized', this.config);
+  }
+
+  /**
+   * The server opens a file stream when the user downloads from RDP drive
+   * redirection or SFTP.
+   */
+  private setupDownloadHandler(): void {
+    this.client.onfile = (stream: any, mimetype: string, filename: string) => {
+      this.receive(stream, mimetype, filename);
+    };
+  }
+
+  /**
+   * Saves an inbound file stream, whether pushed by the server through
+   * client.onfile or requested from a filesystem object.
+   */
+  receive(stream: any, mimetype: string, filename: string): void {
+    const transfer = this.createTransfer('download', filename, mimetype || 'application/octet-stream', null);
+    transfer.status = 'in-progress';
+    transfer.startedAt = Date.now();
+
+    // BlobReader keeps each received chunk as a Blob and joins them by
+    // reference, so the file is never assembled in a single ArrayBuffer
+    const reader = new Guacamole.BlobReader(stream, transfer.mimetype);
+    const job: DownloadJob = { transfer, stream, reader };
+    this.activeDownloads.set(transfer.id, job);
+
+    reader.onprogress = (length: number) => {
+      transfer.transferred += length;
+      this.updateSpeed(transfer);
+      this.notifyChange();
+    };
+
+    reader.onend = () => {
+      this.activeDownloads.delete(transfer.id);
+      this.saveBlob(reader.getBlob(), transfer.filename);
+
+      transfer.status = 'completed';
+      transfer.size = transfer.transferred;
+      transfer.finishedAt = Date.now();
+      this.updateSpeed(transfer);
+
+      logger.info('Download finished', { id: transfer.id, filename, size: transfer.size });
+      this.notifyChange();
+    };
+
+    // guacd holds the first blob until the stream is acknowledged; BlobReader
+    // acks every blob after that
+    stream.sendAck('Ready', GuacamoleStatusCode.SUCCESS);
+
+    logger.info('Download started', { id: transfer.id, filename, mimetype });
+    this.notifyChange();
+  }
+
+  private saveBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // The browser needs the URL until it has started reading the blob
+    window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+  }
+
+  private abortDownload(job: DownloadJob, status: TransferStatus, error?: string): void {
+    const { transfer, stream } = job;
+
+    // Stop BlobReader from acknowledging further blobs, then tell the server
+    // to stop sending with an error ack
+    stream.onblob = null;
+    stream.onend = null;
+    try {
+      stream.sendAck('Download cancelled', GuacamoleStatusCode.RESOURCE_CLOSED);
+    } catch (ackError) {
+      logger.debug('Failed to abort download stream', ackError);
+    }
+
+    this.activeDownloads.delete(transfer.id);
+
+    transfer.status = status;
+    transfer.error = error;
+    transfer.finishedAt = Date.now();
+
+    logger.info('Download aborted', { id: transfer.id, status, error });
+  }
+
+  private createTransfer(direction: TransferDirection, filename: string, mimetype: string, size: number | null): FileTransfer {
+    const transfer: FileTransfer = {
+      id: `transfer-${++this.nextId}`,
+      direction,
+      filename,
+      mimetype,
+      size,
+      transferred: 0,
+      bytesPerSecond: 0,
+      status: 'queued',
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+
+  upload(files: File[], openStream: UploadStreamFactory | null = null): void {
+    files.forEach((file) => {
+      const transfer = this.createTransfer('upload', file.name, file.type || 'application/octet-stream', file.size);
+      this.uploadQueue.push({ transfer, file, openStream, stream: null, writer: null, offset: 0, pendingAcks: 0 });
+      logger.info('Upload queued', { id: transfer.id, filename: file.name, size: file.size });
+    });
+
+    this.notifyChange();
+    this.processQueue();
+  }
+
+  private processQueue(): void {
+    while (this.activeUploads.size < this.config.maxConcurrentUploads && this.uploadQueue.length > 0) {
+      const job = this.uploadQueue.shift()!;
+      this.startUpload(job);
+    }
+  }
+
+  private startUpload(job: UploadJob): void {
+    if (!this.client) {
+      this.failTransfer(job.transfer, 'Not connected');
+      return;
+    }
+
+    const { transfer } = job;
+    transfer.status = 'in-progress';
+    transfer.startedAt = Date.now();
+    this.activeUploads.set(transfer.id, job);
+
+    try {
+      job.stream = job.openStream
+        ? job.openStream(transfer.mimetype, transfer.filename)
+        : this.client.createFileStream(transfer.mimetype, transfer.filename);
+      job.writer = new Guacamole.ArrayBufferWriter(job.stream);
+    } catch (error) {
+      this.finishUpload(job, 'error', `Unable to open stream: ${error}`);
+      return;
+    }
+
+    // The first ack accepts or rejects the stream itself, every later ack
+    // confirms one blob. Only read more from disk once the window drains.
+    let accepted = false;
+    job.writer.onack = (status: any) => {
+      if (transfer.status !== 'in-progress') {
+        return;
+      }
+
+      if (status.isError()) {
+        logger.warn('Upload rejected by server', { id: transfer.id, code: status.code, message: status.message });
+        this.finishUpload(job, 'error', status.message || `Rejected by server (code ${status.code})`);
+        return;
+      }
+
+      if (!accepted) {
+        accepted = true;
+        this.sendNextChunk(job);
+        return;
+      }
+
+      job.pendingAcks--;
+      if (job.pendingAcks === 0) {
+        this.sendNextChunk(job);
+      }
+    };
+
+    logger.info('Upload started', { id: transfer.id, filename: transfer.filename });
+    this.notifyChange();
+  }
+
+  private async sendNextChunk(job: UploadJob): Promise<void> {
+    const { transfer, file } = job;
+
+    if (job.offset >= file.size) {
+      job.writer.sendEnd();
+      this.finishUpload(job, 'completed');
+      return;
+    }
+
+    try {
+      // Read one slice at a time so large files never sit in memory whole
+      const end = Math.min(job.offset + this.config.chunkSize, file.size);
+      const buffer = await file.slice(job.offset, end).arrayBuffer();
+
+      if (transfer.status !== 'in-progress') {
+        return;
+      }
+
+      job.pendingAcks = Math.ceil(buffer.byteLength / job.writer.blobLength);
+      job.writer.sendData(buffer);
+      job.offset = end;
+
+      transfer.transferred = end;
+      this.updateSpeed(transfer);
+      this.notifyChange();
+    } catch (error) {
+      logger.error('Failed to read upload chunk', { id: transfer.id, error });
+      this.finishUpload(job, 'error', `Unable to read file: ${error}`);
+    }
+  }
+
+  private finishUpload(job: UploadJob, status: TransferStatus, error?: string): void {
+    const { transfer } = job;
+
+    transfer.status = status;
+    transfer.error = error;
+    transfer.finishedAt = Date.now();
+    this.updateSpeed(transfer);
+
+    if (job.writer) {
+      job.writer.onack = null;
+    }
+
+    this.activeUploads.delete(transfer.id);
+
+    logger.info('Upload finished', { id: transfer.id, status, error });
+
+    this.notifyChange();
+    this.processQueue();
+  }
+
+  private failTransfer(transfer: FileTransfer, error: string): void {
+    transfer.status = 'error';
+    transfer.error = error;
+    transfer.finishedAt = Date.now();
+    this.notifyChange();
+  }
+
+  private updateSpeed(transfer: FileTransfer): void {
+    if (!transfer.startedAt) {
+      return;
+    }
+    const elapsedSeconds = Math.max(((transfer.finishedAt ?? Date.now()) - transfer.startedAt) / 1000, 0.001);
+    transfer.bytesPerSecond = Math.round(transfer.transferred / elapsedSeconds);
+  }
+
+  /**
+   * Guacamole has no way to abort an outbound stream, so a cancelled upload is
+   * ended early and may leave a partial file on the remote side.
+   */
+  cancel(id: string): void {
+    const queuedIndex = this.uploadQueue.findIndex((job) => job.transfer.id === id);
+    if (queuedIndex !== -1) {
+      const [job] = this.uploadQueue.splice(queuedIndex, 1);
+      job.transfer.status = 'cancelled';
+      job.transfer.finishedAt = Date.now();
+      this.notifyChange();
+      return;
+    }
+
+    const active = this.activeUploads.get(id);
+    if (active) {
+      try {
+        active.stream?.sendEnd();
+      } catch (error) {
+        logger.debug('Failed to end cancelled upload stream', error);
+      }
+      this.finishUpload(active, 'cancelled');
+      return;
+    }
+
+    const download = this.activeDownloads.get(id);
+    if (download) {
+      this.abortDownload(download, 'cancelled');
+      this.notifyChange();
+    }
+  }
+
+  clearFinished(): void {
+    this.transfers.forEach((transfer, id) => {
+      if (transfer.status !== 'queued' && transfer.status !== 'in-progress') {
+        this.transfers.delete(id);
+      }
+    });
+    this.notifyChange();
+  }
+
+  getTransfers(): FileTransfer[] {
+    return Array.from(this.transfers.values()).map((transfer) => ({ ...transfer }));
+  }
+
+  onChange(callback: (transfers: FileTransfer[]) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getTransfers());
+    }
+  }
+
+  destroy(): void {
+    this.uploadQueue.forEach((job) => {
+      job.transfer.status = 'cancelled';
+      job.transfer.finishedAt = Date.now();
+    });
+    this.uploadQueue = [];
+
+    this.activeUploads.forEach((job) => {
+      job.transfer.status = 'error';
+      job.transfer.error = 'Connection closed';
+      job.transfer.finishedAt = Date.now();
+      if (job.writer) {
+        job.writer.onack = null;
+      }
+    });
+    this.activeUploads.clear();
+
+    this.activeDownloads.forEach((job) => this.abortDownload(job, 'error', 'Connection closed'));
+
+    this.notifyChange();
+
+    if (this.client) {
+      this.client.onfile = null;
+    }
+
+    this.onChangeCallback = null;
+    this.client = null;
+    logger.info('FileTransferManager destroyed');
+  }
+}
@@ -0,0 +1,221 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('FullscreenManager');
+
+export interface FullscreenState {
+  active: boolean;
+  // Esc, Alt+Tab and friends reach the page instead of the browser/OS
+  keyboardLocked: boolean;
+  pointerLocked: boolean;
+}
+
+export interface FullscreenConfig {
+  // How long Esc must be held to leave fullscreen
+  exitHoldMs: number;
+}
+
+// Keyboard Lock API, Chromium only and not yet in lib.dom
+export interface NavigatorKeyboard {
+  lock(keyCodes?: string[]): Promise<void>;
+  unlock(): void;
+}
+
+export class FullscreenManager {
+  private state: FullscreenState = { active: false, keyboardLocked: false, pointerLocked: false };
+  private exitTimer: number | null = null;
+
+  private onChangeCallback: ((state: FullscreenState) => void) | null = null;
+  private onPointerMoveCallback: ((deltaX: number, deltaY: number) => void) | null = null;
+
+  private config: FullscreenConfig = {
+    exitHoldMs: 1500,
+  };
+
+  static isSupported(): boolean {
+    return !!document.documentElement.requestFullscreen;
+  }
+
+  constructor(config?: Partial<FullscreenConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    document.addEventListener('fullscreenchange', this.onFullscreenChange);
+    document.addEventListener('pointerlockchange', this.onPointerLockChange);
+    // Capture phase so the hold is seen before Guacamole.Keyboard
+    window.addEventListener('keydown', this.onKeyDown, true);
+    window.addEventListener('keyup', this.onKeyUp, true);
+
+    logger.info('FullscreenManager initialized', this.config);
+  }
+
+  private getKeyboard(): NavigatorKeyboard | null {
+    return (navigator as Navigator & { keyboard?: NavigatorKeyboard }).keyboard ?? null;
+  }
+
+  async enter(): Promise<void> {
+    if (document.fullscreenElement) {
+      return;
+    }
+
+    try {
+      await document.documentElement.requestFullscreen({ navigationUI: 'hide' });
+    } catch (error) {
+      logger.warn('Fullscreen request rejected', error);
+      return;
+    }
+
+    // Only honoured while fullscreen; without it Esc still exits natively
+    const keyboard = this.getKeyboard();
+    if (keyboard) {
+      try {
+        await keyboard.lock();
+        this.update({ keyboardLocked: true });
+        logger.info('Keyboard locked');
+      } catch (error) {
+        logger.warn('Keyboard lock unavailable', error);
+      }
+    }
+  }
+
+  async exit(): Promise<void> {
+    this.exitPointerLock();
+
+    if (!document.fullscreenElement) {
+      return;
+    }
+
+    try {
+      await document.exitFullscreen();
+    } catch (error) {
+      logger.warn('Failed to exit fullscreen', error);
+    }
+  }
+
+  toggle(): void {
+    if (this.state.active) {
+      this.exit();
+    } else {
+      this.enter();
+    }
+  }
+
+  private onFullscreenChange = (): void => {
+    const active = !!document.fullscreenElement;
+
+    if (!active) {
+      this.getKeyboard()?.unlock();
+      this.exitPointerLock();
+    }
+
+    logger.info('Fullscreen changed', { active });
+    this.update({ active, ...(!active && { keyboardLocked: false }) });
+  };
+
+  /**
+   * Pointer lock hides the local cursor and reports raw movement, which CAD
+   * and 3D apps need to rotate freely without hitting the screen edge.
+   */
+  async requestPointerLock(element: HTMLElement): Promise<void> {
+    try {
+      await element.requestPointerLock();
+    } catch (error) {
+      logger.warn('Pointer lock request rejected', error);
+    }
+  }
+
+  exitPointerLock(): void {
+    if (document.pointerLockElement) {
+      document.exitPointerLock();
+    }
+  }
+
+  private onPointerLockChange = (): void => {
+    const pointerLocked = !!document.pointerLockElement;
+
+    if (pointerLocked) {
+      document.addEventListener('mousemove', this.onLockedMouseMove, true);
+    } else {
+      document.removeEventListener('mousemove', this.onLockedMouseMove, true);
+    }
+
+    logger.info('Pointer lock changed', { pointerLocked });
+    this.update({ pointerLocked });
+  };
+
+  // Capture phase runs before Guacamole.Mouse handles the same event
+  private onLockedMouseMove = (event: MouseEvent): void => {
+    if (this.onPointerMoveCallback && (event.movementX || event.movementY)) {
+      this.onPointerMoveCallback(event.movementX, event.movementY);
+    }
+  };
+
+  /**
+   * Esc is forwarded to the remote machine while the keyboard is locked, so
+   * only a long hold leaves fullscreen.
+   */
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (!this.state.active || event.key !== 'Escape' || event.repeat || this.exitTimer !== null) {
+      return;
+    }
+
+    this.exitTimer = window.setTimeout(() => {
+      this.exitTimer = null;
+      logger.info('Esc held, leaving fullscreen');
+      this.exit();
+    }, this.config.exitHoldMs);
+  };
+
+  private onKeyUp = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.cancelExitHold();
+    }
+  };
+
+  private cancelExitHold(): void {
+    if (this.exitTimer !== null) {
+      window.clearTimeout(this.exitTimer);
+      this.exitTimer = null;
+    }
+  }
+
+  getState(): FullscreenState {
+    return { ...this.state };
+  }
+
+  private update(changes: Partial<FullscreenState>): void {
+    this.state = { ...this.state, ...changes };
+
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getState());
+    }
+  }
+
+  onChange(callback: (state: FullscreenState) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  onPointerMove(callback: (deltaX: number, deltaY: number) => void): void {
+    this.onPointerMoveCallback = callback;
+  }
+
+  destroy(): void {
+    this.cancelExitHold();
+
+    document.removeEventListener('fullscreenchange', this.onFullscreenChange);
+    document.removeEventListener('pointerlockchange', this.onPointerLockChange);
+    document.removeEventListener('mousemove', this.onLockedMouseMove, true);
+    window.removeEventListener('keydown', this.onKeyDown, true);
+    window.removeEventListener('keyup', this.onKeyUp, true);
+
+    this.exitPointerLock();
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    }
+    this.getKeyboard()?.unlock();
+
+    this.onChangeCallback = null;
+    this.onPointerMoveCallback = null;
+    logger.info('FullscreenManager destroyed');
+  }
+}
@@ -1,26 +1,95 @@
-import { logger } from '../utils/logger';
-import { JWTAuthManager } from '../auth/JWTAuthManager';
-import { ClipboardManager } from './ClipboardManager';
+import { createLogger, LogLevel } from '../utils/logger';
+import { TypedEventEmitter, EventListener, Unsubscribe } from '../utils/EventEmitter';
+import { JWTAuthManager, TokenStatus } from '../auth/JWTAuthManager';
+import { ClipboardManager, ClipboardData, ClipboardSyncStatus } from './ClipboardManager';
+import { ClipboardHistory, ClipboardEntry } from './ClipboardHistory';
+import {
+  ClipboardPolicy,
+  ClipboardNotice,
+  mergeClipboardPolicies,
+  parseClipboardPolicy,
+} from './ClipboardPolicy';
 import { KeyboardStateManager } from './KeyboardStateManager';
 import { MouseCursorManager } from './MouseCursorManager';
-import { ResolutionManager } from './ResolutionManager';
+import { ResolutionManager, ResolutionMode, ResolutionSettings, ResolutionState } from './ResolutionManager';
+import { ReconnectManager, ReconnectProgress } from './ReconnectManager';
+import { GuacamoleError, GuacamoleErrorCategory } from './GuacamoleError';
+import { ConnectionMetricsManager, ConnectionMetrics } from './ConnectionMetricsManager';
+import { DiagnosticsManager, DiagnosticsSnapshot } from './DiagnosticsManager';
+import { DiagnosticsRecorder, DiagnosticsBundle, createDiagnosticsBundle } from './DiagnosticsBundle';
+import { FileTransferManager, FileTransfer } from './FileTransferManager';
+import { RemoteFilesystemManager, RemoteFilesystem, RemoteFile } from './RemoteFilesystemManager';
+import { AudioManager, AudioState } from './AudioManager';
+import { TouchInputManager, TouchMode } from './TouchInputManager';
+import { DisplayScaleManager, ScaleMode, ScaleState } from './DisplayScaleManager';
+import { OnScreenKeyboardManager, OnScreenKeyboardState } from './OnScreenKeyboardManager';
+import { KeyDefinition, KeyboardLayoutId } from './OnScreenKeyboardLayouts';
+import { KeyComboManager, KeyCombo, DEFAULT_KEY_COMBOS } from './KeyComboManager';
+import { FullscreenManager, FullscreenState } from './FullscreenManager';
+import { PasteTypingManager, PasteTypingConfig, TypingProgress } from './PasteTypingManager';
 
 import Guacamole from "guacamole-common-js";
 
+const logger = createLogger('GuacamoleConnection');
 
 export enum ConnectionState {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   DISCONNECTING = 'DISCONNECTING',
   DISCONNECTED = 'DISCONNECTED',
   ERROR = 'ERROR',
 }
 
+export type TunnelTransport = 'websocket' | 'http';
+
+export interface TunnelEndpoint {
+  type: TunnelTransport;
+  url: string;
+  crossDomain?: boolean;
+}
+
 export interface ConnectionConfig {
   websocketURL: string;
+  // Tried in order until one opens; defaults to websocketURL alone
+  tunnels?: TunnelEndpoint[];
   autoReconnect?: boolean;
   reconnectDelay?: number;
+  maxReconnectAttempts?: number;
+  debugHud?: boolean;
+  // Deployment default, overridden field by field by the token's clipboard claim
+  clipboardPolicy?: Partial<ClipboardPolicy>;
+}
+
+export interface ConnectionEvents {
+  statechange: { state: ConnectionState; transport: TunnelTransport | null };
+  error: GuacamoleError;
+  reconnecting: ReconnectProgress;
+  name: string;
+  sync: number;
+  resize: { width: number; height: number };
+  clipboard: { data: ClipboardData; mimetype: string };
+  clipboardnotice: ClipboardNotice;
+  clipboardhistory: ClipboardEntry[];
+  clipboardsync: ClipboardSyncStatus;
+  cursor: { canvas: HTMLCanvasElement | null; x: number; y: number };
+  sizesent: { width: number; height: number };
+  metrics: ConnectionMetrics;
+  debughud: boolean;
+  diagnostics: DiagnosticsSnapshot;
+  transfers: FileTransfer[];
+  filesystems: RemoteFilesystem[];
+  audio: AudioState;
+  touchmode: TouchMode;
+  osk: OnScreenKeyboardState;
+  keycombos: KeyCombo[];
+  fullscreen: FullscreenState;
+  typing: TypingProgress;
+  scale: ScaleState;
+  resolution: ResolutionState;
+  resolutionnotice: string;
+  token: TokenStatus;
 }
 
 export class GuacamoleConnection {
@@ -37,78 +106,249 @@ export class GuacamoleConnection {
   private keyboardStateManager: KeyboardStateManager | null = null;
   private mouseCursorManager: MouseCursorManager | null = null;
   private resolutionManager: ResolutionManager | null = null;
+  private reconnectManager: ReconnectManager;
+  private metricsManager: ConnectionMetricsManager | null = null;
+  private diagnosticsManager: DiagnosticsManager | null = null;
+  private fileTransferManager: FileTransferManager | null = null;
+  private remoteFilesystemManager: RemoteFilesystemManager | null = null;
+  private audioManager: AudioManager | null = null;
+  private touchInputManager: TouchInputManager | null = null;
+  private scaleManager: DisplayScaleManager | null = null;
+  private onScreenKeyboardManager: OnScreenKeyboardManager | null = null;
+  private keyComboManager: KeyComboManager | null = null;
+  private pasteTypingManager: PasteTypingManager | null = null;
+  private fullscreenManager: FullscreenManager | null = null;
+  private clipboardHistory: ClipboardHistory | null = null;
+  private debugHudVisible: boolean;
+
+  // Audio preferences survive reconnects, unlike the manager holding them
+  private audioMuted: boolean = false;
+  private microphoneEnabled: boolean = false;
+  private touchMode: TouchMode = 'touchscreen';
+  private keyboardLayout: KeyboardLayoutId = 'en-us';
+  private clipboardPolling: boolean = true;
+  private scaleMode: ScaleMode = 'fit';
+  private zoom: number = 100;
+  private resolutionSettings: ResolutionSettings = { mode: 'dynamic', width: null, height: null };
+
+  // Remote cursor position driven by raw movement while the pointer is locked
+  private lockedPointer = { x: 0, y: 0 };
 
   private container: HTMLElement | null = null;
   private state: ConnectionState = ConnectionState.IDLE;
 
-  private onStateChangeCallback: ((state: ConnectionState) => void) | null = null;
-  private onErrorCallback: ((error: string) => void) | null = null;
+  private transport: TunnelTransport | null = null;
+  private resolveTransport: (() => void) | null = null;
+
+  private events = new TypedEventEmitter<ConnectionEvents>();
+
+  private reconnectProgress: ReconnectProgress | null = null;
+
+  // Outlives reconnects, so the bundle covers the whole visit
+  private recorder = new DiagnosticsRecorder();
+  private lastError: GuacamoleError | null = null;
+
+  // Set once a rejected token has been refreshed for a reconnect
+  private authRetried: boolean = false;
 
   constructor(config: ConnectionConfig, authManager: JWTAuthManager) {
     this.config = config;
     this.authManager = authManager;
-
-    logger.info('GuacamoleConnection created', { websocketURL: config.websocketURL });
+    this.authManager.onStatusChange((status) => this.events.emit('token', status));
+    this.debugHudVisible = !!config.debugHud;
+    this.reconnectManager = new ReconnectManager({
+      ...(config.reconnectDelay !== undefined && { baseDelayMs: config.reconnectDelay }),
+      ...(config.maxReconnectAttempts !== undefined && { maxAttempts: config.maxReconnectAttempts }),
+    });
+
+    logger.info('GuacamoleConnection created', {
+      websocketURL: config.websocketURL,
+      tunnels: this.getTunnelEndpoints().map((endpoint) => endpoint.type),
+      autoReconnect: !!config.autoReconnect,
+    });
   }
 
   connect(container: HTMLElement): void {
-    if (this.state !== ConnectionState.IDLE && this.state !== ConnectionState.DISCONNECTED) {
+    if (
+      this.state !== ConnectionState.IDLE &&
+      this.state !== ConnectionState.DISCONNECTED &&
+      this.state !== ConnectionState.ERROR
+    ) {
       logger.warn('Connection already active or in progress');
       return;
     }
 
-    if (!this.authManager.isValid()) {
-      this.handleError('Invalid or expired JWT token');
+    // startSession refreshes an expired token before it is sent
+    const validation = this.authManager.validate();
+    if (!validation.valid && !(validation.reason === 'expired' && this.authManager.canRefresh())) {
+      this.handleError(new GuacamoleError(GuacamoleErrorCategory.AUTH_EXPIRED, validation.message));
       return;
     }
 
     this.container = container;
+    this.reconnectManager.reset();
+    this.reconnectProgress = null;
+    this.authRetried = false;
+    this.createDiagnostics();
+    this.createFullscreen();
+    this.createClipboardHistory();
+    this.createKeyboard();
     this.setState(ConnectionState.CONNECTING);
 
+    void this.startSession();
+  }
+
+  private async startSession(): Promise<void> {
+    // Reconnects can outlive the token the connection started with
+    const token = this.authManager.getStatus();
+    if (token.canRefresh && (token.state === 'refreshing' || token.state === 'expired')) {
+      const refreshed = await this.authManager.refresh();
+
+      if (this.state !== ConnectionState.CONNECTING && this.state !== ConnectionState.RECONNECTING) {
+        return;
+      }
+      if (!refreshed) {
+        this.handleError(new GuacamoleError(GuacamoleErrorCategory.AUTH_EXPIRED, 'JWT token refresh failed'));
+        return;
+      }
+    }
+
     try {
       this.initializeConnection();
     } catch (error) {
-      this.handleError(`Connection initialization failed: ${error}`);
+      this.handleError(GuacamoleError.fromException(error, 'Connection initialization failed'));
+    }
+  }
+
+  private scheduleReconnect(): boolean {
+    const progress = this.reconnectManager.schedule(() => this.attemptReconnect());
+    if (!progress) {
+      return false;
     }
+
+    this.reconnectProgress = progress;
+    this.setState(ConnectionState.RECONNECTING);
+    this.events.emit('reconnecting', progress);
+
+    return true;
+  }
+
+  private attemptReconnect(): void {
+    if (this.state !== ConnectionState.RECONNECTING || !this.container) {
+      return;
+    }
+
+    logger.info('Attempting to reconnect', {
+      attempt: this.reconnectManager.getAttempt(),
+      maxAttempts: this.reconnectManager.getMaxAttempts(),
+    });
+
+    void this.startSession();
+  }
+
+  private getTunnelEndpoints(): TunnelEndpoint[] {
+    if (this.config.tunnels && this.config.tunnels.length > 0) {
+      return this.config.tunnels;
+    }
+    return [{ type: 'websocket', url: this.config.websocketURL }];
+  }
+
+  private createTunnel(): any {
+    // Tunnel URLs carry no parameters, the token travels in the connect data
+    const candidates = this.getTunnelEndpoints().map((endpoint) => {
+      logger.info('Creating tunnel', { type: endpoint.type, url: endpoint.url });
+
+      const tunnel = endpoint.type === 'http'
+        ? new Guacamole.HTTPTunnel(endpoint.url, !!endpoint.crossDomain)
+        : new Guacamole.WebSocketTunnel(endpoint.url);
+
+      return { type: endpoint.type, tunnel };
+    });
+
+    if (candidates.length === 1) {
+      this.transport = candidates[0].type;
+      return candidates[0].tunnel;
+    }
+
+    const chained = new Guacamole.ChainedTunnel(...candidates.map((candidate) => candidate.tunnel));
+
+    // ChainedTunnel falls through on its own but never says which tunnel it
+    // committed to, so find the one that actually opened
+    this.resolveTransport = () => {
+      const open = candidates.find((candidate) => candidate.tunnel.state === Guacamole.Tunnel.State.OPEN);
+      if (open && open.type !== this.transport) {
+        this.transport = open.type;
+        logger.info('Tunnel transport selected', { transport: open.type });
+        if (open.type !== candidates[0].type) {
+          logger.warn('Using fallback tunnel transport', { transport: open.type });
+        }
+      }
+    };
+
+    return chained;
   }
 
   private initializeConnection(): void {
     try {
-      // Use the exact same pattern as working version
-      const wsURL = this.config.websocketURL; // No parameters
-      logger.info('Creating WebSocket tunnel', { wsURL });
-      
-      this.tunnel = new Guacamole.WebSocketTunnel(wsURL);
+      this.transport = null;
+      this.resolveTransport = null;
+      this.tunnel = this.createTunnel();
 
       // Setup handlers
       this.tunnel.onerror = (status: any) => {
         logger.error('Tunnel error', status);
-        this.handleError(`Connection error: ${status.message || 'Unknown error'}`);
+        this.handleError(GuacamoleError.fromStatus(status, 'Connection error'));
       };
 
       this.tunnel.onstatechange = (state: number) => {
         logger.debug('Tunnel state changed', { state });
+        if (state === Guacamole.Tunnel.State.OPEN) {
+          this.resolveTransport?.();
+        }
       };
 
       // Create client
       this.client = new Guacamole.Client(this.tunnel);
+
+      // Must come after the client so it can wrap the client's instruction handler
+      this.metricsManager = new ConnectionMetricsManager(this.tunnel);
+      this.metricsManager.onSample((metrics) => this.events.emit('metrics', metrics));
+
+      this.fileTransferManager = new FileTransferManager(this.client);
+      this.fileTransferManager.onChange((transfers) => this.events.emit('transfers', transfers));
+
+      this.remoteFilesystemManager = new RemoteFilesystemManager(this.client, this.fileTransferManager);
+      this.remoteFilesystemManager.onChange((filesystems) => this.events.emit('filesystems', filesystems));
+
+      this.audioManager = new AudioManager(this.client, {
+        muted: this.audioMuted,
+        microphone: this.microphoneEnabled,
+      });
+      this.audioManager.onChange((audio) => {
+        if (audio.microphone === 'denied') {
+          this.microphoneEnabled = false;
+        }
+        this.events.emit('audio', audio);
+      });
+      this.events.emit('audio', this.audioManager.getState());
+
       this.setupClientHandlers();
       this.__setupInputHandlers();
       
       // Get connection string exactly like working version
-      const connectionString = this.authManager.getConnectionParams();
-      logger.info('Connecting with parameters', { 
-        connectionString,
-        token: this.authManager.getToken(),
-        guacId: this.authManager.getGuacId()
-      });
+      const connectionString =
+        this.authManager.getConnectionParams() +
+        AudioManager.getHandshakeParams() +
+        (this.resolutionManager?.getHandshakeParams() ?? '');
+      // Never log the connection string itself, it carries the token
+      logger.info('Connecting', { guacId: this.authManager.getGuacId() });
       
       // Connect with parameters
       this.client.connect(connectionString);
       
     } catch (error) {
       logger.error('Connection initialization failed', error);
-      this.handleError(`Connection failed: ${error}`);
+      this.handleError(GuacamoleError.fromException(error, 'Connection failed'));
     }
   }
   
@@ -136,17 +376,20 @@ export class GuacamoleConnection {
         statusMessage: status?.message,
         connectionState: this.state
       });
-      this.handleError(`Client error: ${status.message || 'Unknown error'}`);
+      this.handleError(GuacamoleError.fromStatus(status, 'Client error'));
     };
 
     
     this.client.onname = (name: string) => {
       logger.info('Connection name received', { name });
       document.title = `Remote Desktop - ${name}`;
+      this.events.emit('name', name);
     };
 
     this.client.onsync = (timestamp: number) => {
       logger.debug('Sync received - client and server are synchronized', { timestamp });
+      this.metricsManager?.recordSync(timestamp);
+      this.events.emit('sync', timestamp);
     };
     
   }
@@ -204,105 +447,6 @@ export class GuacamoleConnection {
   logger.info('Input handlers configured');
 }
 
-  private _setupInputHandlers(): void {
-
-    if (!this.container) {
-      logger.error('Cannot setup input handlers: container is null');
-      return;
-    }
-
-    this.display = this.client.getDisplay();
-    const displayElement = this.display.getElement();
-
-    // Clear the container and append the display element directly
-    this.container.innerHTML = '';
-    this.container.appendChild(displayElement);
-    
-    // Style the container to be black (so resizing doesn't show white)
-    this.container.style.backgroundColor = 'black';
-
-    // Let Guacamole's display object manage its own size
-    // We just need to tell it to scale to fit its container (this.container)
-    this.display.onresize = (width: number, height: number) => {
-      logger.debug('Display resized by Guacamole', { width, height });
-
-      if (width === 0 || height === 0) {
-        return; // Avoid divide-by-zero
-      }
-
-      // Calculate scale to fit container
-      const containerWidth = this.container.clientWidth;
-      const containerHeight = this.container.clientHeight;
-
-      // Get the minimum scale to fit and maintain aspect ratio
-      const scale = Math.min(
-        containerWidth / width,   // Scale by width
-        containerHeight / height  // Scale by height
-      );
-      
-      this.display.scale(scale);
-      logger.debug('Display scale set', { scale, containerWidth, containerHeight });
-    };
-
-    // Force initial display update
-    setTimeout(() => {
-      if (this.display.getWidth() > 0 && this.display.getHeight() > 0) {
-        this.display.onresize(this.display.getWidth(), this.display.getHeight());
-      }
-    }, 100);
-
-    // Setup mouse and keyboard
-    // We attach the mouse to the *container* so it can capture events
-    // even if the display element doesn't fill it.
-    this.mouse = new Guacamole.Mouse(this.container);
-    this.keyboard = new Guacamole.Keyboard(document);
-
-    this.mouse.onmousedown =
-      this.mouse.onmouseup =
-      this.mouse.onmousemove =
-        (mouseState: any) => {
-          if (this.client) {
-            // We need to scale the mouse coordinates from the container
-            // back to the display's (unscaled) coordinates
-            const scale = this.display.getScale();
-            
-            // Prevent divide by zero if scale is 0
-            if (scale === 0) return;
-
-            mouseState.x = mouseState.x / scale;
-            mouseState.y = mouseState.y / scale;
-            
-            this.client.sendMouseState(mouseState);
-          }
-        };
-
-    this.keyboard.onkeydown = (keysym: number) => {
-      if (this.client) {
-        this.client.sendKeyEvent(true, keysym);
-      }
-      return true;
-    };
-
-    this.keyboard.onkeyup = (keysym: number) => {
-      if (this.client) {
-        this.client.sendKeyEvent(false, keysym);
-      }
-    };
-
-    // Initialize managers
-    this.clipboardManager = new ClipboardManager(this.client);
-    this.keyboardStateManager = new KeyboardStateManager(this.client, this.keyboard);
-    // Pass the container (which has cursor:none) to the MouseCursorManager
-    this.mouseCursorManager = new MouseCursorManager(this.display, this.container);
-    
-    // We still use ResolutionManager, but its job is now just to
-    // tell the server the *maximum* size we can handle, not the *exact* size.
-    // The display.setScale() logic will handle the visual fitting.
-    this.resolutionManager = new ResolutionManager(this.client, this.container);
-
-    logger.info('Input handlers re-configured (simplified)');
-  }
-
   private __setupInputHandlers(): void {
 
     if (!this.container) {
@@ -320,60 +464,52 @@ export class GuacamoleConnection {
     // Style the container to be black (so resizing doesn't show white)
     this.container.style.backgroundColor = 'black';
 
-
-    this.addVisualDebugging();
-    //this.setupDisplayDebugging();
-    
+    this.scaleManager = new DisplayScaleManager(this.display, this.container, {
+      mode: this.scaleMode,
+      zoom: this.zoom,
+    });
 
     // Add display event listeners
 
     this.display.onresize = (width: number, height: number) => {
       logger.debug('Display resized', { width, height });
+      this.events.emit('resize', { width, height });
       if (!(width === 0 || height === 0)) {
-        
-        // Calculate scale to fit container
-        const containerWidth = this.container.clientWidth;
-        const containerHeight = this.container.clientHeight;
-        
-        // Get the minimum scale to fit and maintain aspect ratio
-        const scale = Math.min(
-          containerWidth / width,   // Scale by width
-          containerHeight / height, // Scale by height
-          1.0                      // Maximum scale (don't scale up beyond 100%)
-        );
-        
-        this.display.scale(scale);
-        logger.debug('Display scaled', { scale, container: `${containerWidth}x${containerHeight}`, display: `${width}x${height}` });
+        this.scaleManager?.apply();
+        this.resolutionManager?.handleDisplayResize(width, height);
       }
       else {
         logger.warn('width or height == 0')
       }
     };
 
-    this.display.onflush = (canvas: HTMLCanvasElement) => {
-      logger.debug('Display flushed - frame rendered', {canvas});
+    this.display.onflush = () => {
+      this.metricsManager?.recordFrame();
     };
   
     // Force initial display update
     setTimeout(() => {
-    if (this.display.getWidth() > 0 && this.display.getHeight() > 0) {
+    if (this.display && this.display.getWidth() > 0 && this.display.getHeight() > 0) {
       this.display.onresize(this.display.getWidth(), this.display.getHeight());
     }
     }, 100);
 
     this.mouse = new Guacamole.Mouse(displayElement);
-    this.keyboard = new Guacamole.Keyboard(document);
 
     this.mouse.onmousedown =
       this.mouse.onmouseup =
       this.mouse.onmousemove =
         (mouseState: any) => {
           if (this.client) {
-            this.client.sendMouseState(mouseState);
+            this.client.sendMouseState(this.toRemoteMouseState(mouseState));
           }
         };
 
     this.keyboard.onkeydown = (keysym: number) => {
+      // Typing into our own form fields, e.g. the key combo editor, stays local
+      if (this.isLocalFieldFocused()) {
+        return true;
+      }
       if (this.client) {
         this.client.sendKeyEvent(true, keysym);
       }
@@ -386,16 +522,111 @@ export class GuacamoleConnection {
       }
     };
 
-    this.clipboardManager = new ClipboardManager(this.client);
+    this.clipboardManager = new ClipboardManager(this.client, {
+      policy: this.getClipboardPolicy(),
+      polling: this.clipboardPolling,
+    });
     this.keyboardStateManager = new KeyboardStateManager(this.client, this.keyboard);
+    this.keyComboManager = new KeyComboManager(this.keyboardStateManager);
+    this.pasteTypingManager = new PasteTypingManager(this.keyboardStateManager);
     this.mouseCursorManager = new MouseCursorManager(this.display, displayElement);
-    this.resolutionManager = new ResolutionManager(this.client, this.container);
+    this.resolutionManager = new ResolutionManager(this.client, this.container, { ...this.resolutionSettings });
+    this.touchInputManager = new TouchInputManager(this.client, this.display, this.container, this.scaleManager, {
+      mode: this.touchMode,
+    });
+    this.onScreenKeyboardManager = new OnScreenKeyboardManager(this.keyboard, {
+      layout: this.keyboardLayout,
+    });
+    this.forwardManagerEvents();
 
     logger.info('Input handlers configured');
   }
 
+  private isLocalFieldFocused(): boolean {
+    const element = document.activeElement;
+    return (
+      element instanceof HTMLInputElement ||
+      element instanceof HTMLTextAreaElement ||
+      (element instanceof HTMLElement && element.isContentEditable)
+    );
+  }
+
+  private forwardManagerEvents(): void {
+    this.clipboardManager?.onRemoteClipboard((data, mimetype) => {
+      this.events.emit('clipboard', { data, mimetype });
+    });
+
+    this.clipboardManager?.onPolicyNotice((notice) => {
+      this.events.emit('clipboardnotice', notice);
+    });
+
+    this.clipboardManager?.onTransfer((flow, text, mimetype, size) => {
+      this.clipboardHistory?.add(flow, text, mimetype, size);
+    });
+
+    this.clipboardManager?.onSyncStatus((status) => {
+      this.events.emit('clipboardsync', status);
+    });
+
+    this.mouseCursorManager?.onCursorChange((canvas, x, y) => {
+      this.events.emit('cursor', { canvas, x, y });
+    });
+
+    this.resolutionManager?.onSizeSent((width, height) => {
+      this.events.emit('sizesent', { width, height });
+    });
+
+    this.resolutionManager?.onChange((resolution) => {
+      this.resolutionSettings = { mode: resolution.mode, width: resolution.width, height: resolution.height };
+      this.events.emit('resolution', resolution);
+    });
+
+    let ignoredNoticeShown = false;
+    this.resolutionManager?.onHistory((entry) => {
+      this.recorder.recordResolution(entry);
+    });
+
+    this.resolutionManager?.onIgnored(({ width, height }) => {
+      // 1:1 would leave part of a mismatched desktop off screen
+      if (this.scaleMode === 'native') {
+        this.setScaleMode('fit');
+      }
+
+      if (!ignoredNoticeShown) {
+        ignoredNoticeShown = true;
+        this.events.emit(
+          'resolutionnotice',
+          `The remote desktop did not switch to ${width}×${height}, so it is being scaled to fit instead`
+        );
+      }
+    });
+
+    this.onScreenKeyboardManager?.onChange((state) => {
+      this.events.emit('osk', state);
+    });
+
+    this.scaleManager?.onChange((scale) => {
+      this.scaleMode = scale.mode;
+      if (scale.mode === 'zoom') {
+        this.zoom = scale.zoom;
+      }
+      this.events.emit('scale', scale);
+    });
+
+    this.keyComboManager?.onChange((combos) => {
+      this.events.emit('keycombos', combos);
+    });
+
+    this.pasteTypingManager?.onProgress((progress) => {
+      this.events.emit('typing', progress);
+    });
+  }
+
   private onConnected(): void {
     logger.info('Connection established');
+    this.reconnectManager.reset();
+    this.reconnectProgress = null;
+    this.authRetried = false;
     this.setState(ConnectionState.CONNECTED);
 
     // Log display information
@@ -418,6 +649,8 @@ export class GuacamoleConnection {
     this.clipboardManager?.startMonitoring();
     this.keyboardStateManager?.activate();
     this.resolutionManager?.start();
+    this.metricsManager?.start();
+    this.audioManager?.start();
   }
 
   private onDisconnected(): void {
@@ -434,6 +667,15 @@ export class GuacamoleConnection {
       return;
     }
 
+    this.reconnectManager.cancel();
+
+    if (this.state === ConnectionState.RECONNECTING) {
+      logger.info('Reconnect cancelled by disconnect');
+      this.teardownSession();
+      this.onDisconnected();
+      return;
+    }
+
     logger.info('Disconnecting...');
     this.setState(ConnectionState.DISCONNECTING);
 
@@ -447,15 +689,180 @@ export class GuacamoleConnection {
   private cleanup(): void {
     logger.info('Cleaning up connection resources');
 
+    this.reconnectManager.cancel();
+    this.reconnectProgress = null;
+    this.teardownSession();
+
+    this.diagnosticsManager?.destroy();
+    this.diagnosticsManager = null;
+
+    this.fullscreenManager?.destroy();
+    this.fullscreenManager = null;
+
+    this.clipboardHistory?.destroy();
+    this.clipboardHistory = null;
+
+    this.container = null;
+  }
+
+  /**
+   * The HUD outlives reconnects but not the connection itself, so it is
+   * created on connect() and torn down by cleanup().
+   */
+  private createDiagnostics(): void {
+    this.diagnosticsManager?.destroy();
+
+    this.diagnosticsManager = new DiagnosticsManager(() => this.collectDiagnostics(), {
+      visible: this.debugHudVisible,
+    });
+
+    this.diagnosticsManager.onVisibilityChange((visible) => {
+      this.debugHudVisible = visible;
+      this.events.emit('debughud', visible);
+    });
+
+    this.diagnosticsManager.onSnapshot((snapshot) => {
+      this.events.emit('diagnostics', snapshot);
+    });
+
+    if (this.debugHudVisible) {
+      this.events.emit('debughud', true);
+    }
+  }
+
+  /**
+   * Guacamole.Keyboard cannot detach its document listeners, so a single
+   * instance serves every session, and every later connect(), with only its
+   * handlers rebound per session.
+   */
+  private createKeyboard(): void {
+    if (!this.keyboard) {
+      this.keyboard = new Guacamole.Keyboard(document);
+    }
+  }
+
+  private createClipboardHistory(): void {
+    this.clipboardHistory?.destroy();
+    this.clipboardHistory = new ClipboardHistory();
+
+    this.clipboardHistory.onChange((entries) => {
+      this.events.emit('clipboardhistory', entries);
+    });
+  }
+
+  private createFullscreen(): void {
+    this.fullscreenManager?.destroy();
+    this.fullscreenManager = new FullscreenManager();
+
+    let wasActive = false;
+    let wasPointerLocked = false;
+
+    this.fullscreenManager.onChange((state) => {
+      if (state.active !== wasActive) {
+        wasActive = state.active;
+        // Let the header and footer hide or reappear before measuring
+        window.setTimeout(() => this.resolutionManager?.forceResize(), 100);
+      }
+
+      if (state.pointerLocked !== wasPointerLocked) {
+        wasPointerLocked = state.pointerLocked;
+        this.onPointerLockChange(state.pointerLocked);
+      }
+
+      this.events.emit('fullscreen', state);
+    });
+
+    this.fullscreenManager.onPointerMove((deltaX, deltaY) => {
+      if (!this.display) {
+        return;
+      }
+
+      const scale = this.display.getScale() || 1;
+      this.lockedPointer.x = Math.min(Math.max(this.lockedPointer.x + deltaX / scale, 0), this.display.getWidth() - 1);
+      this.lockedPointer.y = Math.min(Math.max(this.lockedPointer.y + deltaY / scale, 0), this.display.getHeight() - 1);
+    });
+  }
+
+  private onPointerLockChange(locked: boolean): void {
+    if (!this.display) {
+      return;
+    }
+
+    if (locked) {
+      this.lockedPointer = { x: this.display.cursorX, y: this.display.cursorY };
+    }
+
+    // The local cursor is hidden while locked, so draw the remote one
+    this.display.showCursor(locked || this.touchMode === 'touchpad');
+  }
+
+  /**
+   * Under pointer lock the browser freezes clientX/clientY, so Guacamole.Mouse
+   * only contributes buttons and the position comes from raw movement.
+   */
+  private toRemoteMouseState(mouseState: any): any {
+    if (!this.fullscreenManager?.getState().pointerLocked) {
+      return this.scaleManager ? this.scaleManager.toRemoteState(mouseState) : mouseState;
+    }
+
+    const state = new Guacamole.Mouse.State(mouseState);
+    state.x = this.lockedPointer.x;
+    state.y = this.lockedPointer.y;
+    return state;
+  }
+
+  private collectDiagnostics(): DiagnosticsSnapshot {
+    const tunnelStates = ['CONNECTING', 'OPEN', 'CLOSED', 'UNSTABLE'];
+    const tunnelState = this.tunnel ? this.tunnel.state : null;
+
+    return {
+      displayWidth: this.display ? this.display.getWidth() : 0,
+      displayHeight: this.display ? this.display.getHeight() : 0,
+      containerWidth: this.container ? this.container.clientWidth : 0,
+      containerHeight: this.container ? this.container.clientHeight : 0,
+      scale: this.display ? this.display.getScale() : 0,
+      devicePixelRatio: window.devicePixelRatio || 1,
+      lastSentSize: this.resolutionManager?.getLastSentSize() ?? null,
+      pressedKeys: this.keyboardStateManager?.getPressedKeys() ?? [],
+      connectionState: this.state,
+      tunnelState: tunnelState === null ? 'NONE' : tunnelStates[tunnelState] || `UNKNOWN (${tunnelState})`,
+      transport: this.transport,
+      logLevel: LogLevel[logger.getLevel()],
+    };
+  }
+
+  /**
+   * Releases everything tied to a single tunnel/client pair while keeping the
+   * container, so a reconnect can rebuild the session in place.
+   */
+  private teardownSession(): void {
+    this.pasteTypingManager?.destroy();
+    this.onScreenKeyboardManager?.destroy();
+    this.keyComboManager?.destroy();
     this.clipboardManager?.destroy();
     this.keyboardStateManager?.destroy();
     this.mouseCursorManager?.destroy();
     this.resolutionManager?.destroy();
+    this.metricsManager?.destroy();
+    this.remoteFilesystemManager?.destroy();
+    this.fileTransferManager?.destroy();
+    this.audioManager?.destroy();
+    this.touchInputManager?.destroy();
+    this.scaleManager?.destroy();
 
     this.clipboardManager = null;
     this.keyboardStateManager = null;
     this.mouseCursorManager = null;
     this.resolutionManager = null;
+    this.metricsManager = null;
+    this.fileTransferManager = null;
+    this.remoteFilesystemManager = null;
+    this.audioManager = null;
+    this.touchInputManager = null;
+    this.scaleManager = null;
+    this.onScreenKeyboardManager = null;
+    this.keyComboManager = null;
+    this.pasteTypingManager = null;
 
     if (this.display && this.container) {
       const displayElement = this.display.getElement();
@@ -464,22 +871,63 @@ export class GuacamoleConnection {
       }
     }
 
+    // Detach handlers before closing so the old client cannot report a
+    // disconnect into the session that replaces it
+    if (this.client) {
+      this.client.onstatechange = null;
+      this.client.onerror = null;
+      try {
+        this.client.disconnect();
+      } catch (error) {
+        logger.debug('Client disconnect during teardown failed', error);
+      }
+    }
+
+    if (this.tunnel) {
+      this.tunnel.onerror = null;
+      this.tunnel.onstatechange = null;
+    }
+
+    if (this.mouse) {
+      this.mouse.onmousedown = this.mouse.onmouseup = this.mouse.onmousemove = null;
+    }
+
+    // Handlers go first so the reset cannot send releases to the old client
+    if (this.keyboard) {
+      this.keyboard.onkeydown = null;
+      this.keyboard.onkeyup = null;
+      this.keyboard.reset();
+    }
+
     this.client = null;
     this.tunnel = null;
+    this.resolveTransport = null;
     this.display = null;
     this.mouse = null;
-    this.keyboard = null;
-    this.container = null;
   }
 
-  private handleError(error: string): void {
-    logger.error('Connection error', { error });
-    this.setState(ConnectionState.ERROR);
-
-    if (this.onErrorCallback) {
-      this.onErrorCallback(error);
+  private handleError(error: GuacamoleError): void {
+    logger.error('Connection error', {
+      error: error.message,
+      code: error.getCodeLabel(),
+      category: error.category,
+      retryable: error.retryable,
+    });
+
+    this.lastError = error;
+    this.recorder.recordError(error);
+
+    if (this.shouldReconnect(error)) {
+      this.teardownSession();
+      if (this.scheduleReconnect()) {
+        return;
+      }
+      logger.error('Unable to reconnect', { attempts: this.reconnectManager.getMaxAttempts() });
     }
 
+    this.setState(ConnectionState.ERROR);
+    this.events.emit('error', error);
+
     this.cleanup();
   }
 
@@ -492,106 +940,370 @@ export class GuacamoleConnection {
     this.state = newState;
 
     logger.info('Connection state changed', { from: oldState, to: newState });
+    this.recorder.recordState(newState, this.transport);
+
+    this.events.emit('statechange', { state: newState, transport: this.transport });
+  }
+
+  private shouldReconnect(error: GuacamoleError): boolean {
+    if (!this.config.autoReconnect || !this.container) {
+      return false;
+    }
+
+    if (this.state === ConnectionState.DISCONNECTING || this.state === ConnectionState.DISCONNECTED) {
+      return false;
+    }
 
-    if (this.onStateChangeCallback) {
-      this.onStateChangeCallback(newState);
+    // The server turned the token down; one reconnect with a fresh token is worth a try
+    if (error.category === GuacamoleErrorCategory.AUTH_EXPIRED && this.authManager.canRefresh() && !this.authRetried) {
+      this.authRetried = true;
+      void this.authManager.refresh();
+      return true;
+    }
+
+    if (!error.retryable) {
+      logger.info('Error is not retryable, giving up', { category: error.category });
+      return false;
     }
+
+    return true;
   }
 
   getState(): ConnectionState {
     return this.state;
   }
 
-  onStateChange(callback: (state: ConnectionState) => void): void {
-    this.onStateChangeCallback = callback;
+  getAudioState(): AudioState {
+    return this.audioManager?.getState() ?? {
+      muted: this.audioMuted,
+      playbackBlocked: false,
+      microphone: 'off',
+    };
   }
 
-  onError(callback: (error: string) => void): void {
-    this.onErrorCallback = callback;
+  setAudioMuted(muted: boolean): void {
+    this.audioMuted = muted;
+    this.audioManager?.setMuted(muted);
   }
 
-  isConnected(): boolean {
-    return this.state === ConnectionState.CONNECTED;
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.microphoneEnabled = enabled;
+    if (this.state === ConnectionState.CONNECTED) {
+      this.audioManager?.setMicrophoneEnabled(enabled);
+    }
   }
 
-  // Add this method to GuacamoleConnection.ts
-  private setupDisplayDebugging(): void {
-    if (!this.display) return;
-
-    // Override the flush method to debug canvas content - FIXED VERSION
-    const originalFlush = this.display.flush;
-    this.display.flush = (canvas: HTMLCanvasElement) => {
-      if (canvas && canvas.width && canvas.height) {
-        logger.debug('Canvas flush - checking content', {
-          width: canvas.width,
-          height: canvas.height,
-          hasContent: canvas.width > 0 && canvas.height > 0
-        });
-        
-        // Check if canvas has any non-black pixels (safe check)
-        try {
-          const context = canvas.getContext('2d');
-          if (context) {
-            const imageData = context.getImageData(0, 0, 1, 1);
-            const pixelData = imageData.data;
-            logger.debug('Top-left pixel color', {
-              r: pixelData[0],
-              g: pixelData[1],
-              b: pixelData[2],
-              a: pixelData[3]
-            });
-          }
-        } catch (error) {
-          logger.debug('Cannot read pixel data (may be tainted)', { error });
-        }
-      } else {
-        logger.debug('Canvas flush - canvas is not ready yet');
-      }
-      
-      return originalFlush.call(this.display, canvas);
-    };
+  getScaleState(): ScaleState {
+    return this.scaleManager?.getState() ?? { mode: this.scaleMode, zoom: this.zoom };
   }
-  private addVisualDebugging(): void {
-    if (!this.container) return;
-    
-    // Add a border to see the container boundaries
-    this.container.style.border = '2px solid red';
-    
-    // Add a debug info overlay
-    const debugOverlay = document.createElement('div');
-    debugOverlay.style.position = 'absolute';
-    debugOverlay.style.top = '10px';
-    debugOverlay.style.left = '10px';
-    debugOverlay.style.backgroundColor = 'rgba(0,0,0,0.7)';
-    debugOverlay.style.color = 'white';
-    debugOverlay.style.padding = '5px';
-    debugOverlay.style.fontFamily = 'monospace';
-    debugOverlay.style.fontSize = '12px';
-    debugOverlay.style.zIndex = '1000';
-    debugOverlay.innerHTML = 'Waiting for display...';
-    
-    this.container.style.position = 'relative';
-    this.container.appendChild(debugOverlay);
-    
-    // Update debug info on resize
-    const updateDebugInfo = () => {
-      if (this.display) {
-        const displayWidth = this.display.getWidth();
-        const displayHeight = this.display.getHeight();
-        const containerWidth = this.container?.clientWidth;
-        const containerHeight = this.container?.clientHeight;
-        
-        debugOverlay.innerHTML = `
-          Display: ${displayWidth}x${displayHeight}<br>
-          Container: ${containerWidth}x${containerHeight}<br>
-          Scale: ${this.display.getScale()}
-        `;
-      }
+
+  setScaleMode(mode: ScaleMode): void {
+    this.scaleMode = mode;
+    this.scaleManager?.setMode(mode);
+  }
+
+  setZoom(percent: number): void {
+    this.scaleManager?.setZoom(percent);
+  }
+
+  zoomIn(): void {
+    this.scaleManager?.zoomIn();
+  }
+
+  zoomOut(): void {
+    this.scaleManager?.zoomOut();
+  }
+
+  getResolutionState(): ResolutionState {
+    return this.resolutionManager?.getState() ?? { ...this.resolutionSettings, honored: null };
+  }
+
+  setResolutionMode(mode: ResolutionMode, size?: { width: number; height: number }): void {
+    if (this.resolutionManager) {
+      this.resolutionManager.setMode(mode, size);
+    } else {
+      this.resolutionSettings = { mode, width: size?.width ?? null, height: size?.height ?? null };
+    }
+  }
+
+  getTouchMode(): TouchMode {
+    return this.touchMode;
+  }
+
+  setTouchMode(mode: TouchMode): void {
+    if (this.touchMode === mode) {
+      return;
+    }
+
+    this.touchMode = mode;
+    this.touchInputManager?.setMode(mode);
+    this.events.emit('touchmode', mode);
+  }
+
+  getOnScreenKeyboardState(): OnScreenKeyboardState {
+    return this.onScreenKeyboardManager?.getState() ?? {
+      layout: this.keyboardLayout,
+      modifiers: { shift: 'off', ctrl: 'off', alt: 'off', altgr: 'off', win: 'off' },
+      capsLock: false,
     };
-    
-    // Update periodically
-    setInterval(updateDebugInfo, 1000);
-    updateDebugInfo();
   }
-}
 
+  pressOnScreenKey(key: KeyDefinition): void {
+    if (this.state !== ConnectionState.CONNECTED) {
+      return;
+    }
+    this.onScreenKeyboardManager?.pressKey(key);
+  }
+
+  setOnScreenKeyboardLayout(layout: KeyboardLayoutId): void {
+    this.keyboardLayout = layout;
+    this.onScreenKeyboardManager?.setLayout(layout);
+  }
+
+  getClipboardPolicy(): ClipboardPolicy {
+    return mergeClipboardPolicies(
+      this.config.clipboardPolicy,
+      parseClipboardPolicy(this.authManager.getClaims()?.clipboard)
+    );
+  }
+
+  getClipboardHistory(): ClipboardEntry[] {
+    return this.clipboardHistory?.getEntries() ?? [];
+  }
+
+  clearClipboardHistory(): void {
+    this.clipboardHistory?.clear();
+  }
+
+  sendClipboardText(text: string): boolean {
+    if (!this.clipboardManager || this.state !== ConnectionState.CONNECTED) {
+      logger.warn('Cannot send clipboard: not connected');
+      return false;
+    }
+    this.clipboardManager.sendText(text);
+    return true;
+  }
+
+  getClipboardSyncStatus(): ClipboardSyncStatus {
+    return this.clipboardManager?.getSyncStatus() ?? { polling: this.clipboardPolling, readable: null };
+  }
+
+  setClipboardPolling(enabled: boolean): void {
+    this.clipboardPolling = enabled;
+
+    if (this.clipboardManager) {
+      this.clipboardManager.setPolling(enabled);
+    } else {
+      this.events.emit('clipboardsync', { polling: enabled, readable: null });
+    }
+  }
+
+  getKeyCombos(): KeyCombo[] {
+    return this.keyComboManager?.getCombos() ?? DEFAULT_KEY_COMBOS;
+  }
+
+  sendKeyCombo(id: string): boolean {
+    if (!this.keyComboManager || this.state !== ConnectionState.CONNECTED) {
+      logger.warn('Cannot send key combo: not connected');
+      return false;
+    }
+    return this.keyComboManager.send(id);
+  }
+
+  addKeyCombo(label: string, keysyms: number[]): KeyCombo | null {
+    return this.keyComboManager?.addCustomCombo(label, keysyms) ?? null;
+  }
+
+  removeKeyCombo(id: string): void {
+    this.keyComboManager?.removeCustomCombo(id);
+  }
+
+  /**
+   * Types text as individual keystrokes, for consoles that have no
+   * clipboard channel such as BIOS screens or VNC without a clipboard.
+   */
+  typeText(text: string, options?: Partial<PasteTypingConfig>): boolean {
+    if (!this.pasteTypingManager || this.state !== ConnectionState.CONNECTED) {
+      logger.warn('Cannot type text: not connected');
+      return false;
+    }
+    this.pasteTypingManager.type(text, options);
+    return true;
+  }
+
+  pauseTyping(): void {
+    this.pasteTypingManager?.pause();
+  }
+
+  resumeTyping(): void {
+    this.pasteTypingManager?.resume();
+  }
+
+  cancelTyping(): void {
+    this.pasteTypingManager?.cancel();
+  }
+
+  getTypingProgress(): TypingProgress {
+    return this.pasteTypingManager?.getProgress() ?? { status: 'idle', typed: 0, total: 0 };
+  }
+
+  getFullscreenState(): FullscreenState {
+    return this.fullscreenManager?.getState() ?? { active: false, keyboardLocked: false, pointerLocked: false };
+  }
+
+  toggleFullscreen(): void {
+    this.fullscreenManager?.toggle();
+  }
+
+  setPointerLock(enabled: boolean): void {
+    if (!enabled) {
+      this.fullscreenManager?.exitPointerLock();
+    } else if (this.display && this.state === ConnectionState.CONNECTED) {
+      this.fullscreenManager?.requestPointerLock(this.display.getElement());
+    }
+  }
+
+  uploadFiles(files: File[]): void {
+    if (!this.fileTransferManager || this.state !== ConnectionState.CONNECTED) {
+      logger.warn('Cannot upload files: not connected');
+      return;
+    }
+    this.fileTransferManager.upload(files);
+  }
+
+  cancelTransfer(id: string): void {
+    this.fileTransferManager?.cancel(id);
+  }
+
+  clearFinishedTransfers(): void {
+    this.fileTransferManager?.clearFinished();
+  }
+
+  getTransfers(): FileTransfer[] {
+    return this.fileTransferManager?.getTransfers() ?? [];
+  }
+
+  getFilesystems(): RemoteFilesystem[] {
+    return this.remoteFilesystemManager?.getFilesystems() ?? [];
+  }
+
+  listRemoteDirectory(filesystem: number, path: string): Promise<RemoteFile[]> {
+    if (!this.remoteFilesystemManager) {
+      return Promise.reject(new Error('Not connected'));
+    }
+    return this.remoteFilesystemManager.listDirectory(filesystem, path);
+  }
+
+  downloadRemoteFile(filesystem: number, path: string): void {
+    this.remoteFilesystemManager?.download(filesystem, path);
+  }
+
+  uploadToRemoteDirectory(filesystem: number, directory: string, files: File[]): void {
+    if (!this.remoteFilesystemManager || this.state !== ConnectionState.CONNECTED) {
+      logger.warn('Cannot upload files: not connected');
+      return;
+    }
+    this.remoteFilesystemManager.upload(filesystem, directory, files);
+  }
+
+  getMetrics(): ConnectionMetrics | null {
+    return this.metricsManager?.getMetrics() ?? null;
+  }
+
+  getMetricsHistory(): ConnectionMetrics[] {
+    return this.metricsManager?.getHistory() ?? [];
+  }
+
+  getTransport(): TunnelTransport | null {
+    return this.transport;
+  }
+
+  isDebugHudVisible(): boolean {
+    return this.debugHudVisible;
+  }
+
+  setDebugHudVisible(visible: boolean): void {
+    this.debugHudVisible = visible;
+
+    if (this.diagnosticsManager) {
+      this.diagnosticsManager.setVisible(visible);
+    } else {
+      this.events.emit('debughud', visible);
+    }
+  }
+
+  getDiagnostics(): DiagnosticsSnapshot {
+    return this.collectDiagnostics();
+  }
+
+  /**
+   * Everything support needs in one redacted object, see DiagnosticsBundle.
+   */
+  getDiagnosticsBundle(): DiagnosticsBundle {
+    const auth = this.authManager.getStatus();
+
+    return createDiagnosticsBundle(
+      {
+        state: this.state,
+        transport: this.transport,
+        guacId: this.authManager.getGuacId(),
+        // Not under a "token" key, which redaction would blank out
+        auth: {
+          state: auth.state,
+          expiresAt: auth.expiresAt === null ? null : new Date(auth.expiresAt).toISOString(),
+        },
+        reconnect: this.reconnectProgress,
+        lastError: this.lastError && {
+          code: this.lastError.getCodeLabel(),
+          category: this.lastError.category,
+          detail: this.lastError.message,
+        },
+        snapshot: this.collectDiagnostics(),
+        resolution: this.resolutionManager?.getState() ?? this.resolutionSettings,
+        scale: this.scaleManager?.getState() ?? null,
+        metrics: this.getMetrics(),
+      },
+      this.recorder
+    );
+  }
+
+  getTokenStatus(): TokenStatus {
+    return this.authManager.getStatus();
+  }
+
+  /**
+   * Fetches a new token now rather than waiting for the scheduled refresh.
+   * The open session keeps running; the new token is used on reconnect.
+   */
+  refreshToken(): Promise<boolean> {
+    return this.authManager.refresh();
+  }
+
+  getReconnectProgress(): ReconnectProgress | null {
+    return this.reconnectProgress;
+  }
+
+  on<K extends keyof ConnectionEvents>(event: K, listener: EventListener<ConnectionEvents[K]>): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends keyof ConnectionEvents>(event: K, listener: EventListener<ConnectionEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  onStateChange(callback: (state: ConnectionState, transport: TunnelTransport | null) => void): Unsubscribe {
+    return this.events.on('statechange', ({ state, transport }) => callback(state, transport));
+  }
+
+  onError(callback: (error: GuacamoleError) => void): Unsubscribe {
+    return this.events.on('error', callback);
+  }
+
+  onReconnecting(callback: (progress: ReconnectProgress) => void): Unsubscribe {
+    return this.events.on('reconnecting', callback);
+  }
+
+  isConnected(): boolean {
+    return this.state === ConnectionState.CONNECTED;
+  }
+}
@@ -0,0 +1,303 @@
+export enum GuacamoleErrorCategory {
+  AUTH_EXPIRED = 'AUTH_EXPIRED',
+  AUTH_FORBIDDEN = 'AUTH_FORBIDDEN',
+  UPSTREAM_UNREACHABLE = 'UPSTREAM_UNREACHABLE',
+  UPSTREAM_TIMEOUT = 'UPSTREAM_TIMEOUT',
+  SERVER_BUSY = 'SERVER_BUSY',
+  SERVER_ERROR = 'SERVER_ERROR',
+  RESOURCE_NOT_FOUND = 'RESOURCE_NOT_FOUND',
+  RESOURCE_CONFLICT = 'RESOURCE_CONFLICT',
+  SESSION_CLOSED = 'SESSION_CLOSED',
+  SESSION_TIMEOUT = 'SESSION_TIMEOUT',
+  NETWORK = 'NETWORK',
+  CLIENT_ERROR = 'CLIENT_ERROR',
+  UNSUPPORTED = 'UNSUPPORTED',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export enum SuggestedAction {
+  RETRY = 'RETRY',
+  WAIT_AND_RETRY = 'WAIT_AND_RETRY',
+  REAUTHENTICATE = 'REAUTHENTICATE',
+  RECONNECT_ANYWAY = 'RECONNECT_ANYWAY',
+  CONTACT_SUPPORT = 'CONTACT_SUPPORT',
+}
+
+export type ErrorLocale = 'en' | 'pt-BR';
+
+interface CategoryInfo {
+  retryable: boolean;
+  action: SuggestedAction;
+}
+
+// Guacamole.Status.Code values, see guacamole-common-js Status.js
+export const GuacamoleStatusCode = {
+  SUCCESS: 0x0000,
+  UNSUPPORTED: 0x0100,
+  SERVER_ERROR: 0x0200,
+  SERVER_BUSY: 0x0201,
+  UPSTREAM_TIMEOUT: 0x0202,
+  UPSTREAM_ERROR: 0x0203,
+  RESOURCE_NOT_FOUND: 0x0204,
+  RESOURCE_CONFLICT: 0x0205,
+  RESOURCE_CLOSED: 0x0206,
+  UPSTREAM_NOT_FOUND: 0x0207,
+  UPSTREAM_UNAVAILABLE: 0x0208,
+  SESSION_CONFLICT: 0x0209,
+  SESSION_TIMEOUT: 0x020a,
+  SESSION_CLOSED: 0x020b,
+  CLIENT_BAD_REQUEST: 0x0300,
+  CLIENT_UNAUTHORIZED: 0x0301,
+  CLIENT_FORBIDDEN: 0x0303,
+  CLIENT_TIMEOUT: 0x0308,
+  CLIENT_OVERRUN: 0x030d,
+  CLIENT_BAD_TYPE: 0x030f,
+  CLIENT_TOO_MANY: 0x031d,
+} as const;
+
+const STATUS_CATEGORIES: Record<number, GuacamoleErrorCategory> = {
+  [GuacamoleStatusCode.UNSUPPORTED]: GuacamoleErrorCategory.UNSUPPORTED,
+  [GuacamoleStatusCode.SERVER_ERROR]: GuacamoleErrorCategory.SERVER_ERROR,
+  [GuacamoleStatusCode.SERVER_BUSY]: GuacamoleErrorCategory.SERVER_BUSY,
+  [GuacamoleStatusCode.UPSTREAM_TIMEOUT]: GuacamoleErrorCategory.UPSTREAM_TIMEOUT,
+  [GuacamoleStatusCode.UPSTREAM_ERROR]: GuacamoleErrorCategory.UPSTREAM_UNREACHABLE,
+  [GuacamoleStatusCode.RESOURCE_NOT_FOUND]: GuacamoleErrorCategory.RESOURCE_NOT_FOUND,
+  [GuacamoleStatusCode.RESOURCE_CONFLICT]: GuacamoleErrorCategory.RESOURCE_CONFLICT,
+  [GuacamoleStatusCode.RESOURCE_CLOSED]: GuacamoleErrorCategory.NETWORK,
+  [GuacamoleStatusCode.UPSTREAM_NOT_FOUND]: GuacamoleErrorCategory.UPSTREAM_UNREACHABLE,
+  [GuacamoleStatusCode.UPSTREAM_UNAVAILABLE]: GuacamoleErrorCategory.SERVER_BUSY,
+  [GuacamoleStatusCode.SESSION_CONFLICT]: GuacamoleErrorCategory.RESOURCE_CONFLICT,
+  [GuacamoleStatusCode.SESSION_TIMEOUT]: GuacamoleErrorCategory.SESSION_TIMEOUT,
+  [GuacamoleStatusCode.SESSION_CLOSED]: GuacamoleErrorCategory.SESSION_CLOSED,
+  [GuacamoleStatusCode.CLIENT_BAD_REQUEST]: GuacamoleErrorCategory.CLIENT_ERROR,
+  [GuacamoleStatusCode.CLIENT_UNAUTHORIZED]: GuacamoleErrorCategory.AUTH_EXPIRED,
+  [GuacamoleStatusCode.CLIENT_FORBIDDEN]: GuacamoleErrorCategory.AUTH_FORBIDDEN,
+  [GuacamoleStatusCode.CLIENT_TIMEOUT]: GuacamoleErrorCategory.NETWORK,
+  [GuacamoleStatusCode.CLIENT_OVERRUN]: GuacamoleErrorCategory.CLIENT_ERROR,
+  [GuacamoleStatusCode.CLIENT_BAD_TYPE]: GuacamoleErrorCategory.CLIENT_ERROR,
+  [GuacamoleStatusCode.CLIENT_TOO_MANY]: GuacamoleErrorCategory.SERVER_BUSY,
+};
+
+const CATEGORY_INFO: Record<GuacamoleErrorCategory, CategoryInfo> = {
+  [GuacamoleErrorCategory.AUTH_EXPIRED]: { retryable: false, action: SuggestedAction.REAUTHENTICATE },
+  [GuacamoleErrorCategory.AUTH_FORBIDDEN]: { retryable: false, action: SuggestedAction.CONTACT_SUPPORT },
+  [GuacamoleErrorCategory.UPSTREAM_UNREACHABLE]: { retryable: true, action: SuggestedAction.RETRY },
+  [GuacamoleErrorCategory.UPSTREAM_TIMEOUT]: { retryable: true, action: SuggestedAction.RETRY },
+  [GuacamoleErrorCategory.SERVER_BUSY]: { retryable: true, action: SuggestedAction.WAIT_AND_RETRY },
+  [GuacamoleErrorCategory.SERVER_ERROR]: { retryable: true, action: SuggestedAction.RETRY },
+  [GuacamoleErrorCategory.RESOURCE_NOT_FOUND]: { retryable: false, action: SuggestedAction.CONTACT_SUPPORT },
+  [GuacamoleErrorCategory.RESOURCE_CONFLICT]: { retryable: false, action: SuggestedAction.RECONNECT_ANYWAY },
+  [GuacamoleErrorCategory.SESSION_CLOSED]: { retryable: false, action: SuggestedAction.RECONNECT_ANYWAY },
+  [GuacamoleErrorCategory.SESSION_TIMEOUT]: { retryable: false, action: SuggestedAction.RETRY },
+  [GuacamoleErrorCategory.NETWORK]: { retryable: true, action: SuggestedAction.RETRY },
+  [GuacamoleErrorCategory.CLIENT_ERROR]: { retryable: false, action: SuggestedAction.CONTACT_SUPPORT },
+  [GuacamoleErrorCategory.UNSUPPORTED]: { retryable: false, action: SuggestedAction.CONTACT_SUPPORT },
+  // Unrecognised codes and unexpected exceptions may well be permanent: retry by hand only
+  [GuacamoleErrorCategory.UNKNOWN]: { retryable: false, action: SuggestedAction.RETRY },
+};
+
+const MESSAGES: Record<ErrorLocale, Record<GuacamoleErrorCategory, { title: string; message: string }>> = {
+  en: {
+    AUTH_EXPIRED: {
+      title: 'Session Link Expired',
+      message: 'Your access link is invalid or has expired. Open the connection again from your portal.',
+    },
+    AUTH_FORBIDDEN: {
+      title: 'Access Denied',
+      message: 'You are not allowed to access this remote desktop.',
+    },
+    UPSTREAM_UNREACHABLE: {
+      title: 'Remote Desktop Unreachable',
+      message: 'The remote desktop could not be reached. It may be powered off or restarting.',
+    },
+    UPSTREAM_TIMEOUT: {
+      title: 'Remote Desktop Not Responding',
+      message: 'The remote desktop took too long to respond.',
+    },
+    SERVER_BUSY: {
+      title: 'Server Busy',
+      message: 'The server is handling too many connections right now. Please wait a moment and try again.',
+    },
+    SERVER_ERROR: {
+      title: 'Server Error',
+      message: 'The remote desktop gateway ran into an internal error.',
+    },
+    RESOURCE_NOT_FOUND: {
+      title: 'Connection Not Found',
+      message: 'The requested connection does not exist or is no longer available.',
+    },
+    RESOURCE_CONFLICT: {
+      title: 'Session In Use',
+      message: 'This remote desktop is already in use in another window or by another user.',
+    },
+    SESSION_CLOSED: {
+      title: 'Session Closed',
+      message: 'The session was closed by an administrator or by the remote desktop.',
+    },
+    SESSION_TIMEOUT: {
+      title: 'Session Timed Out',
+      message: 'The session was closed because it was inactive for too long.',
+    },
+    NETWORK: {
+      title: 'Connection Lost',
+      message: 'The network connection to the server was interrupted.',
+    },
+    CLIENT_ERROR: {
+      title: 'Connection Rejected',
+      message: 'The server rejected data sent by this browser.',
+    },
+    UNSUPPORTED: {
+      title: 'Not Supported',
+      message: 'The requested operation is not supported by the server.',
+    },
+    UNKNOWN: {
+      title: 'Connection Failed',
+      message: 'An unexpected error occurred while connecting.',
+    },
+  },
+  'pt-BR': {
+    AUTH_EXPIRED: {
+      title: 'Link de Acesso Expirado',
+      message: 'Seu link de acesso é inválido ou expirou. Abra a conexão novamente pelo portal.',
+    },
+    AUTH_FORBIDDEN: {
+      title: 'Acesso Negado',
+      message: 'Você não tem permissão para acessar esta área de trabalho remota.',
+    },
+    UPSTREAM_UNREACHABLE: {
+      title: 'Área de Trabalho Inacessível',
+      message: 'Não foi possível alcançar a área de trabalho remota. Ela pode estar desligada ou reiniciando.',
+    },
+    UPSTREAM_TIMEOUT: {
+      title: 'Área de Trabalho Não Responde',
+      message: 'A área de trabalho remota demorou demais para responder.',
+    },
+    SERVER_BUSY: {
+      title: 'Servidor Ocupado',
+      message: 'O servidor está com muitas conexões no momento. Aguarde um pouco e tente novamente.',
+    },
+    SERVER_ERROR: {
+      title: 'Erro no Servidor',
+      message: 'O gateway de área de trabalho remota encontrou um erro interno.',
+    },
+    RESOURCE_NOT_FOUND: {
+      title: 'Conexão Não Encontrada',
+      message: 'A conexão solicitada não existe ou não está mais disponível.',
+    },
+    RESOURCE_CONFLICT: {
+      title: 'Sessão em Uso',
+      message: 'Esta área de trabalho remota já está em uso em outra janela ou por outro usuário.',
+    },
+    SESSION_CLOSED: {
+      title: 'Sessão Encerrada',
+      message: 'A sessão foi encerrada por um administrador ou pela área de trabalho remota.',
+    },
+    SESSION_TIMEOUT: {
+      title: 'Sessão Expirada',
+      message: 'A sessão foi encerrada por ficar inativa por muito tempo.',
+    },
+    NETWORK: {
+      title: 'Conexão Perdida',
+      message: 'A conexão de rede com o servidor foi interrompida.',
+    },
+    CLIENT_ERROR: {
+      title: 'Conexão Rejeitada',
+      message: 'O servidor rejeitou dados enviados por este navegador.',
+    },
+    UNSUPPORTED: {
+      title: 'Não Suportado',
+      message: 'A operação solicitada não é suportada pelo servidor.',
+    },
+    UNKNOWN: {
+      title: 'Falha na Conexão',
+      message: 'Ocorreu um erro inesperado ao conectar.',
+    },
+  },
+};
+
+const ACTION_LABELS: Record<ErrorLocale, Record<SuggestedAction, string>> = {
+  en: {
+    RETRY: 'Retry Connection',
+    WAIT_AND_RETRY: 'Try Again',
+    REAUTHENTICATE: 'Back to Portal',
+    RECONNECT_ANYWAY: 'Reconnect Anyway',
+    CONTACT_SUPPORT: 'Copy Error Details',
+  },
+  'pt-BR': {
+    RETRY: 'Tentar Novamente',
+    WAIT_AND_RETRY: 'Tentar Novamente',
+    REAUTHENTICATE: 'Voltar ao Portal',
+    RECONNECT_ANYWAY: 'Reconectar Mesmo Assim',
+    CONTACT_SUPPORT: 'Copiar Detalhes do Erro',
+  },
+};
+
+export function resolveErrorLocale(language: string = navigator.language): ErrorLocale {
+  return language.toLowerCase().startsWith('pt') ? 'pt-BR' : 'en';
+}
+
+export function getActionLabel(action: SuggestedAction, locale: ErrorLocale = resolveErrorLocale()): string {
+  return ACTION_LABELS[locale][action];
+}
+
+export class GuacamoleError extends Error {
+  readonly code: number | null;
+  readonly category: GuacamoleErrorCategory;
+  readonly retryable: boolean;
+  readonly action: SuggestedAction;
+  readonly title: string;
+  readonly userMessage: string;
+
+  constructor(
+    category: GuacamoleErrorCategory,
+    detail: string,
+    code: number | null = null,
+    locale: ErrorLocale = resolveErrorLocale()
+  ) {
+    super(detail);
+    this.name = 'GuacamoleError';
+    this.code = code;
+    this.category = category;
+    this.retryable = CATEGORY_INFO[category].retryable;
+    this.action = CATEGORY_INFO[category].action;
+    this.title = MESSAGES[locale][category].title;
+    this.userMessage = MESSAGES[locale][category].message;
+  }
+
+  /**
+   * Builds an error from a Guacamole.Status as delivered to client.onerror and
+   * tunnel.onerror.
+   */
+  static fromStatus(status: { code?: number; message?: string } | null | undefined, context: string): GuacamoleError {
+    const code = typeof status?.code === 'number' && !Number.isNaN(status.code) ? status.code : null;
+    const detail = `${context}: ${status?.message || 'Unknown error'}`;
+
+    // No status code means the browser dropped the socket before the server
+    // could answer
+    const category = code === null
+      ? GuacamoleErrorCategory.NETWORK
+      : STATUS_CATEGORIES[code] ?? GuacamoleErrorCategory.UNKNOWN;
+
+    return new GuacamoleError(category, detail, code);
+  }
+
+  /**
+   * Wraps anything thrown while setting up the connection. Guacamole throws
+   * Guacamole.Status objects, everything else is treated as unknown.
+   */
+  static fromException(error: unknown, context: string): GuacamoleError {
+    if (error instanceof GuacamoleError) {
+      return error;
+    }
+
+    if (error && typeof error === 'object' && 'code' in error) {
+      return GuacamoleError.fromStatus(error as { code?: number; message?: string }, context);
+    }
+
+    return new GuacamoleError(GuacamoleErrorCategory.UNKNOWN, `${context}: ${error}`);
+  }
+
+  getCodeLabel(): string | null {
+    return this.code === null ? null : `0x${this.code.toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+}
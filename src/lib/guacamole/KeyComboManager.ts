@@ -0,0 +1,231 @@
+import { createLogger } from '../utils/logger';
+import { Keysym, keysymFromCharacter } from './Keysyms';
+import { KeyboardStateManager } from './KeyboardStateManager';
+
+const logger = createLogger('KeyComboManager');
+
+export interface KeyCombo {
+  id: string;
+  label: string;
+  // Pressed in order, released in reverse
+  keysyms: number[];
+  custom: boolean;
+}
+
+export interface KeyComboConfig {
+  storageKey: string;
+}
+
+const NAMED_KEYS: Record<string, number> = {
+  ctrl: Keysym.CONTROL_LEFT,
+  control: Keysym.CONTROL_LEFT,
+  alt: Keysym.ALT_LEFT,
+  altgr: Keysym.ALT_GR,
+  shift: Keysym.SHIFT_LEFT,
+  win: Keysym.SUPER_LEFT,
+  super: Keysym.SUPER_LEFT,
+  cmd: Keysym.SUPER_LEFT,
+  esc: Keysym.ESCAPE,
+  escape: Keysym.ESCAPE,
+  tab: Keysym.TAB,
+  enter: Keysym.RETURN,
+  return: Keysym.RETURN,
+  space: Keysym.SPACE,
+  backspace: Keysym.BACKSPACE,
+  del: Keysym.DELETE,
+  delete: Keysym.DELETE,
+  ins: Keysym.INSERT,
+  insert: Keysym.INSERT,
+  home: Keysym.HOME,
+  end: Keysym.END,
+  pgup: Keysym.PAGE_UP,
+  pageup: Keysym.PAGE_UP,
+  pgdn: Keysym.PAGE_DOWN,
+  pagedown: Keysym.PAGE_DOWN,
+  up: Keysym.UP,
+  down: Keysym.DOWN,
+  left: Keysym.LEFT,
+  right: Keysym.RIGHT,
+  prtsc: Keysym.PRINT,
+  print: Keysym.PRINT,
+  menu: Keysym.MENU,
+  pause: Keysym.PAUSE,
+  capslock: Keysym.CAPS_LOCK,
+};
+
+for (let index = 1; index <= 12; index++) {
+  NAMED_KEYS[`f${index}`] = Keysym.F1 + index - 1;
+}
+
+/**
+ * Parses "Ctrl+Shift+Esc" style text into keysyms, or null if any part is
+ * not a known key name or a single character.
+ */
+export const parseKeyCombo = (text: string): number[] | null => {
+  const parts = text.split('+').map((part) => part.trim());
+
+  if (parts.length === 0 || parts.some((part) => part === '')) {
+    return null;
+  }
+
+  const keysyms: number[] = [];
+
+  for (const part of parts) {
+    const named = NAMED_KEYS[part.toLowerCase()];
+    if (named !== undefined) {
+      keysyms.push(named);
+    } else if (Array.from(part).length === 1) {
+      keysyms.push(keysymFromCharacter(part.toLowerCase()));
+    } else {
+      return null;
+    }
+  }
+
+  return keysyms;
+};
+
+export const DEFAULT_KEY_COMBOS: KeyCombo[] = [
+  {
+    id: 'ctrl-alt-del',
+    label: 'Ctrl+Alt+Del',
+    keysyms: [Keysym.CONTROL_LEFT, Keysym.ALT_LEFT, Keysym.DELETE],
+    custom: false,
+  },
+  { id: 'win', label: 'Win', keysyms: [Keysym.SUPER_LEFT], custom: false },
+  { id: 'alt-tab', label: 'Alt+Tab', keysyms: [Keysym.ALT_LEFT, Keysym.TAB], custom: false },
+  { id: 'alt-f4', label: 'Alt+F4', keysyms: [Keysym.ALT_LEFT, Keysym.F4], custom: false },
+  { id: 'win-l', label: 'Win+L', keysyms: [Keysym.SUPER_LEFT, keysymFromCharacter('l')], custom: false },
+  {
+    id: 'ctrl-shift-esc',
+    label: 'Ctrl+Shift+Esc',
+    keysyms: [Keysym.CONTROL_LEFT, Keysym.SHIFT_LEFT, Keysym.ESCAPE],
+    custom: false,
+  },
+  { id: 'print', label: 'Print Screen', keysyms: [Keysym.PRINT], custom: false },
+];
+
+export class KeyComboManager {
+  private keyboardStateManager: KeyboardStateManager;
+  private customCombos: KeyCombo[] = [];
+
+  private onChangeCallback: ((combos: KeyCombo[]) => void) | null = null;
+
+  private config: KeyComboConfig = {
+    storageKey: 'guacamole-key-combos',
+  };
+
+  constructor(keyboardStateManager: KeyboardStateManager, config?: Partial<KeyComboConfig>) {
+    this.keyboardStateManager = keyboardStateManager;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.customCombos = this.loadCustomCombos();
+    logger.info('KeyComboManager initialized', { custom: this.customCombos.length });
+  }
+
+  private loadCustomCombos(): KeyCombo[] {
+    try {
+      const stored = window.localStorage.getItem(this.config.storageKey);
+      if (!stored) {
+        return [];
+      }
+
+      const parsed: unknown = JSON.parse(stored);
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+
+      return parsed
+        .filter((combo) =>
+          typeof combo?.id === 'string' &&
+          typeof combo?.label === 'string' &&
+          Array.isArray(combo?.keysyms) &&
+          combo.keysyms.length > 0 &&
+          combo.keysyms.every((keysym: unknown) => Number.isInteger(keysym))
+        )
+        .map((combo) => ({ id: combo.id, label: combo.label, keysyms: combo.keysyms, custom: true }));
+    } catch (error) {
+      logger.warn('Failed to load saved key combos', error);
+      return [];
+    }
+  }
+
+  private saveCustomCombos(): void {
+    try {
+      const stored = this.customCombos.map(({ id, label, keysyms }) => ({ id, label, keysyms }));
+      window.localStorage.setItem(this.config.storageKey, JSON.stringify(stored));
+    } catch (error) {
+      logger.warn('Failed to save key combos', error);
+    }
+  }
+
+  getCombos(): KeyCombo[] {
+    return [...DEFAULT_KEY_COMBOS, ...this.customCombos];
+  }
+
+  /**
+   * Presses every key, then releases them in reverse. Keys are tracked by
+   * KeyboardStateManager, so a failure part way still gets them released.
+   */
+  send(id: string): boolean {
+    const combo = this.getCombos().find((candidate) => candidate.id === id);
+    if (!combo) {
+      logger.warn('Unknown key combo', { id });
+      return false;
+    }
+
+    logger.info('Sending key combo', { id, label: combo.label });
+
+    try {
+      combo.keysyms.forEach((keysym) => this.keyboardStateManager.sendKeyEvent(true, keysym));
+    } finally {
+      [...combo.keysyms].reverse().forEach((keysym) => this.keyboardStateManager.sendKeyEvent(false, keysym));
+    }
+
+    return true;
+  }
+
+  addCustomCombo(label: string, keysyms: number[]): KeyCombo {
+    const combo: KeyCombo = {
+      id: `custom-${Date.now().toString(36)}`,
+      label,
+      keysyms,
+      custom: true,
+    };
+
+    this.customCombos.push(combo);
+    this.saveCustomCombos();
+    logger.info('Custom key combo added', { id: combo.id, label });
+    this.notifyChange();
+
+    return combo;
+  }
+
+  removeCustomCombo(id: string): void {
+    const before = this.customCombos.length;
+    this.customCombos = this.customCombos.filter((combo) => combo.id !== id);
+
+    if (this.customCombos.length !== before) {
+      this.saveCustomCombos();
+      logger.info('Custom key combo removed', { id });
+      this.notifyChange();
+    }
+  }
+
+  onChange(callback: (combos: KeyCombo[]) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getCombos());
+    }
+  }
+
+  destroy(): void {
+    this.onChangeCallback = null;
+    logger.info('KeyComboManager destroyed');
+  }
+}
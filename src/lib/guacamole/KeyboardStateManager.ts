@@ -1,4 +1,6 @@
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('KeyboardStateManager');
 
 export class KeyboardStateManager {
   private client: any;
@@ -82,6 +84,24 @@ export class KeyboardStateManager {
     }
   }
 
+  /**
+   * Sends a key event straight to the client for keys that never pass
+   * through Guacamole.Keyboard, while still tracking them for release.
+   */
+  sendKeyEvent(pressed: boolean, keysym: number): void {
+    if (pressed) {
+      this.pressedKeys.add(keysym);
+    } else {
+      this.pressedKeys.delete(keysym);
+    }
+
+    this.client.sendKeyEvent(pressed, keysym);
+  }
+
+  getPressedKeys(): number[] {
+    return Array.from(this.pressedKeys);
+  }
+
   activate(): void {
     if (this.isActive) {
       return;
@@ -0,0 +1,59 @@
+/**
+ * X11 keysyms for keys that do not produce a character. Printable
+ * characters map through keysymFromCharacter().
+ */
+export const Keysym = {
+  BACKSPACE: 0xff08,
+  TAB: 0xff09,
+  RETURN: 0xff0d,
+  PAUSE: 0xff13,
+  ESCAPE: 0xff1b,
+  HOME: 0xff50,
+  LEFT: 0xff51,
+  UP: 0xff52,
+  RIGHT: 0xff53,
+  DOWN: 0xff54,
+  PAGE_UP: 0xff55,
+  PAGE_DOWN: 0xff56,
+  END: 0xff57,
+  PRINT: 0xff61,
+  INSERT: 0xff63,
+  MENU: 0xff67,
+  F1: 0xffbe,
+  F2: 0xffbf,
+  F3: 0xffc0,
+  F4: 0xffc1,
+  F5: 0xffc2,
+  F6: 0xffc3,
+  F7: 0xffc4,
+  F8: 0xffc5,
+  F9: 0xffc6,
+  F10: 0xffc7,
+  F11: 0xffc8,
+  F12: 0xffc9,
+  SHIFT_LEFT: 0xffe1,
+  SHIFT_RIGHT: 0xffe2,
+  CONTROL_LEFT: 0xffe3,
+  CONTROL_RIGHT: 0xffe4,
+  CAPS_LOCK: 0xffe5,
+  ALT_LEFT: 0xffe9,
+  ALT_RIGHT: 0xffea,
+  SUPER_LEFT: 0xffeb,
+  ALT_GR: 0xfe03, // ISO_Level3_Shift
+  DELETE: 0xffff,
+  SPACE: 0x0020,
+} as const;
+
+/**
+ * Latin-1 characters share their code point with their keysym; everything
+ * else uses the Unicode keysym range.
+ */
+export const keysymFromCharacter = (character: string): number => {
+  const codepoint = character.codePointAt(0) ?? 0;
+
+  if ((codepoint >= 0x20 && codepoint <= 0x7e) || (codepoint >= 0xa0 && codepoint <= 0xff)) {
+    return codepoint;
+  }
+
+  return 0x01000000 | codepoint;
+};
@@ -1,10 +1,14 @@
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('MouseCursorManager');
 
 export class MouseCursorManager {
   private display: any;
   private container: HTMLElement;
   private isRemoteCursorVisible: boolean = false;
 
+  private onCursorChangeCallback: ((canvas: HTMLCanvasElement | null, x: number, y: number) => void) | null = null;
+
   constructor(display: any, container: HTMLElement) {
     this.display = display;
     this.container = container;
@@ -25,6 +29,10 @@ export class MouseCursorManager {
       } else {
         this.hideRemoteCursor();
       }
+
+      if (this.onCursorChangeCallback) {
+        this.onCursorChangeCallback(canvas || null, x, y);
+      }
     };
 
     this.hideLocalCursor();
@@ -65,9 +73,14 @@ export class MouseCursorManager {
     logger.info('MouseCursorManager reset');
   }
 
+  onCursorChange(callback: (canvas: HTMLCanvasElement | null, x: number, y: number) => void): void {
+    this.onCursorChangeCallback = callback;
+  }
+
   destroy(): void {
     this.showLocalCursor();
     this.display.oncursor = null;
+    this.onCursorChangeCallback = null;
     logger.info('MouseCursorManager destroyed');
   }
 }
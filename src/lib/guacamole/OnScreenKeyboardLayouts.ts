@@ -0,0 +1,137 @@
+import { Keysym } from './Keysyms';
+
+export type KeyboardLayoutId = 'en-us' | 'pt-br' | 'de-de';
+
+export type KeyModifier = 'shift' | 'ctrl' | 'alt' | 'altgr' | 'win';
+
+export interface KeyDefinition {
+  id: string;
+  label: string;
+  // Character keys pick a character by modifier state, the rest send a fixed keysym
+  characters?: { normal: string; shift: string; altgr?: string };
+  keysym?: number;
+  modifier?: KeyModifier;
+  capsLock?: boolean;
+  // Relative width, 1 being a letter key
+  width?: number;
+}
+
+export interface KeyboardLayout {
+  id: KeyboardLayoutId;
+  name: string;
+  rows: KeyDefinition[][];
+}
+
+// One character per key; a space in the AltGr row means "nothing on AltGr"
+interface CharacterRow {
+  normal: string;
+  shift: string;
+  altgr?: string;
+}
+
+const characterKeys = (row: CharacterRow): KeyDefinition[] =>
+  Array.from(row.normal).map((normal, index) => {
+    const shift = Array.from(row.shift)[index];
+    const altgr = row.altgr ? Array.from(row.altgr)[index] : undefined;
+
+    return {
+      id: `char-${normal}`,
+      label: normal,
+      characters: { normal, shift, ...(altgr && altgr !== ' ' && { altgr }) },
+    };
+  });
+
+const key = (id: string, label: string, keysym: number, width?: number): KeyDefinition => ({
+  id,
+  label,
+  keysym,
+  ...(width && { width }),
+});
+
+const modifierKey = (id: string, label: string, modifier: KeyModifier, width?: number): KeyDefinition => ({
+  id,
+  label,
+  modifier,
+  ...(width && { width }),
+});
+
+const FUNCTION_ROW: KeyDefinition[] = [
+  key('esc', 'Esc', Keysym.ESCAPE),
+  key('f1', 'F1', Keysym.F1),
+  key('f2', 'F2', Keysym.F2),
+  key('f3', 'F3', Keysym.F3),
+  key('f4', 'F4', Keysym.F4),
+  key('f5', 'F5', Keysym.F5),
+  key('f6', 'F6', Keysym.F6),
+  key('f7', 'F7', Keysym.F7),
+  key('f8', 'F8', Keysym.F8),
+  key('f9', 'F9', Keysym.F9),
+  key('f10', 'F10', Keysym.F10),
+  key('f11', 'F11', Keysym.F11),
+  key('f12', 'F12', Keysym.F12),
+  key('insert', 'Ins', Keysym.INSERT),
+  key('delete', 'Del', Keysym.DELETE),
+  key('home', 'Home', Keysym.HOME),
+  key('end', 'End', Keysym.END),
+  key('page-up', 'PgUp', Keysym.PAGE_UP),
+  key('page-down', 'PgDn', Keysym.PAGE_DOWN),
+];
+
+const BOTTOM_ROW: KeyDefinition[] = [
+  modifierKey('ctrl-left', 'Ctrl', 'ctrl', 1.5),
+  modifierKey('win', 'Win', 'win', 1.25),
+  modifierKey('alt', 'Alt', 'alt', 1.25),
+  key('space', '', Keysym.SPACE, 6),
+  modifierKey('altgr', 'AltGr', 'altgr', 1.25),
+  key('menu', 'Menu', Keysym.MENU, 1.25),
+  key('left', '←', Keysym.LEFT),
+  key('up', '↑', Keysym.UP),
+  key('down', '↓', Keysym.DOWN),
+  key('right', '→', Keysym.RIGHT),
+];
+
+const buildLayout = (
+  id: KeyboardLayoutId,
+  name: string,
+  rows: { numbers: CharacterRow; top: CharacterRow; home: CharacterRow; bottom: CharacterRow }
+): KeyboardLayout => ({
+  id,
+  name,
+  rows: [
+    FUNCTION_ROW,
+    [...characterKeys(rows.numbers), key('backspace', 'Backspace', Keysym.BACKSPACE, 2)],
+    [key('tab', 'Tab', Keysym.TAB, 1.5), ...characterKeys(rows.top)],
+    [
+      { id: 'caps-lock', label: 'Caps', keysym: Keysym.CAPS_LOCK, capsLock: true, width: 1.75 },
+      ...characterKeys(rows.home),
+      key('enter', 'Enter', Keysym.RETURN, 2),
+    ],
+    [
+      modifierKey('shift-left', 'Shift', 'shift', 2),
+      ...characterKeys(rows.bottom),
+      modifierKey('shift-right', 'Shift', 'shift', 2),
+    ],
+    BOTTOM_ROW,
+  ],
+});
+
+export const KEYBOARD_LAYOUTS: Record<KeyboardLayoutId, KeyboardLayout> = {
+  'en-us': buildLayout('en-us', 'English (US)', {
+    numbers: { normal: '`1234567890-=', shift: '~!@#$%^&*()_+' },
+    top: { normal: 'qwertyuiop[]\\', shift: 'QWERTYUIOP{}|' },
+    home: { normal: "asdfghjkl;'", shift: 'ASDFGHJKL:"' },
+    bottom: { normal: 'zxcvbnm,./', shift: 'ZXCVBNM<>?' },
+  }),
+  'pt-br': buildLayout('pt-br', 'Português (ABNT2)', {
+    numbers: { normal: "'1234567890-=", shift: '"!@#$%¨&*()_+', altgr: ' ¹²³£¢¬     §' },
+    top: { normal: 'qwertyuiop´[', shift: 'QWERTYUIOP`{', altgr: '/?°        ª' },
+    home: { normal: 'asdfghjklç~]', shift: 'ASDFGHJKLÇ^}', altgr: '           º' },
+    bottom: { normal: '\\zxcvbnm,.;/', shift: '|ZXCVBNM<>:?' },
+  }),
+  'de-de': buildLayout('de-de', 'Deutsch (QWERTZ)', {
+    numbers: { normal: '^1234567890ß´', shift: '°!"§$%&/()=?`', altgr: '  ²³   {[]}\\ ' },
+    top: { normal: 'qwertzuiopü+', shift: 'QWERTZUIOPÜ*', altgr: '@ €        ~' },
+    home: { normal: 'asdfghjklöä#', shift: "ASDFGHJKLÖÄ'" },
+    bottom: { normal: '<yxcvbnm,.-', shift: '>YXCVBNM;:_', altgr: '|      µ   ' },
+  }),
+};
@@ -0,0 +1,217 @@
+import { createLogger } from '../utils/logger';
+import { Keysym, keysymFromCharacter } from './Keysyms';
+import { KeyDefinition, KeyModifier, KeyboardLayoutId, KEYBOARD_LAYOUTS } from './OnScreenKeyboardLayouts';
+
+const logger = createLogger('OnScreenKeyboardManager');
+
+// Tapping a modifier once latches it for the next key, twice locks it
+export type ModifierMode = 'off' | 'latched' | 'locked';
+
+export interface OnScreenKeyboardState {
+  layout: KeyboardLayoutId;
+  modifiers: Record<KeyModifier, ModifierMode>;
+  capsLock: boolean;
+}
+
+export interface OnScreenKeyboardConfig {
+  layout: KeyboardLayoutId;
+}
+
+const MODIFIER_KEYSYMS: Record<KeyModifier, number> = {
+  shift: Keysym.SHIFT_LEFT,
+  ctrl: Keysym.CONTROL_LEFT,
+  alt: Keysym.ALT_LEFT,
+  altgr: Keysym.ALT_GR,
+  win: Keysym.SUPER_LEFT,
+};
+
+const MODIFIERS = Object.keys(MODIFIER_KEYSYMS) as KeyModifier[];
+
+const isLetter = (character: string): boolean => character.toLowerCase() !== character.toUpperCase();
+
+/**
+ * The character a key produces (and shows) under the given modifier state.
+ */
+export const resolveCharacter = (key: KeyDefinition, state: OnScreenKeyboardState): string | null => {
+  if (!key.characters) {
+    return null;
+  }
+
+  const { normal, shift, altgr } = key.characters;
+
+  if (state.modifiers.altgr !== 'off' && altgr) {
+    return altgr;
+  }
+
+  const shifted = state.modifiers.shift !== 'off';
+  const upper = state.capsLock && isLetter(normal) ? !shifted : shifted;
+
+  return upper ? shift : normal;
+};
+
+export class OnScreenKeyboardManager {
+  private keyboard: any;
+  private layout: KeyboardLayoutId;
+  private modifiers: Record<KeyModifier, ModifierMode>;
+  private capsLock: boolean = false;
+
+  private onChangeCallback: ((state: OnScreenKeyboardState) => void) | null = null;
+
+  private config: OnScreenKeyboardConfig = {
+    layout: 'en-us',
+  };
+
+  constructor(keyboard: any, config?: Partial<OnScreenKeyboardConfig>) {
+    this.keyboard = keyboard;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.layout = this.config.layout;
+    this.modifiers = { shift: 'off', ctrl: 'off', alt: 'off', altgr: 'off', win: 'off' };
+
+    // KeyboardStateManager releases every key on blur, so drop our latches too
+    window.addEventListener('blur', this.onWindowBlur);
+
+    logger.info('OnScreenKeyboardManager initialized', this.config);
+  }
+
+  private onWindowBlur = (): void => {
+    if (MODIFIERS.some((modifier) => this.modifiers[modifier] !== 'off')) {
+      MODIFIERS.forEach((modifier) => {
+        this.modifiers[modifier] = 'off';
+      });
+      this.notifyChange();
+    }
+  };
+
+  /**
+   * Keys go through the Guacamole.Keyboard handlers rather than straight to
+   * the client, so KeyboardStateManager tracks them like physical keys.
+   */
+  private sendKey(pressed: boolean, keysym: number): void {
+    if (!this.keyboard) {
+      return;
+    }
+
+    if (pressed) {
+      this.keyboard.onkeydown?.(keysym);
+    } else {
+      this.keyboard.onkeyup?.(keysym);
+    }
+  }
+
+  private tapKey(keysym: number): void {
+    this.sendKey(true, keysym);
+    this.sendKey(false, keysym);
+  }
+
+  pressKey(key: KeyDefinition): void {
+    if (key.modifier) {
+      this.cycleModifier(key.modifier);
+      return;
+    }
+
+    if (key.capsLock) {
+      this.tapKey(Keysym.CAPS_LOCK);
+      this.capsLock = !this.capsLock;
+      this.notifyChange();
+      return;
+    }
+
+    const character = resolveCharacter(key, this.getState());
+    const keysym = character !== null ? keysymFromCharacter(character) : key.keysym;
+
+    if (keysym === undefined) {
+      return;
+    }
+
+    logger.debug('On-screen key pressed', { id: key.id, keysym });
+    this.tapKey(keysym);
+    this.releaseLatchedModifiers();
+  }
+
+  private cycleModifier(modifier: KeyModifier): void {
+    const keysym = MODIFIER_KEYSYMS[modifier];
+
+    switch (this.modifiers[modifier]) {
+      case 'off':
+        this.sendKey(true, keysym);
+        this.modifiers[modifier] = 'latched';
+        break;
+      case 'latched':
+        this.modifiers[modifier] = 'locked';
+        break;
+      case 'locked':
+        this.sendKey(false, keysym);
+        this.modifiers[modifier] = 'off';
+        break;
+    }
+
+    this.notifyChange();
+  }
+
+  private releaseLatchedModifiers(): void {
+    let changed = false;
+
+    MODIFIERS.forEach((modifier) => {
+      if (this.modifiers[modifier] === 'latched') {
+        this.sendKey(false, MODIFIER_KEYSYMS[modifier]);
+        this.modifiers[modifier] = 'off';
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.notifyChange();
+    }
+  }
+
+  releaseModifiers(): void {
+    MODIFIERS.forEach((modifier) => {
+      if (this.modifiers[modifier] !== 'off') {
+        this.sendKey(false, MODIFIER_KEYSYMS[modifier]);
+        this.modifiers[modifier] = 'off';
+      }
+    });
+    this.notifyChange();
+  }
+
+  setLayout(layout: KeyboardLayoutId): void {
+    if (!KEYBOARD_LAYOUTS[layout] || this.layout === layout) {
+      return;
+    }
+
+    this.layout = layout;
+    logger.info('On-screen keyboard layout changed', { layout });
+    this.notifyChange();
+  }
+
+  getState(): OnScreenKeyboardState {
+    return {
+      layout: this.layout,
+      modifiers: { ...this.modifiers },
+      capsLock: this.capsLock,
+    };
+  }
+
+  onChange(callback: (state: OnScreenKeyboardState) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getState());
+    }
+  }
+
+  destroy(): void {
+    this.releaseModifiers();
+    window.removeEventListener('blur', this.onWindowBlur);
+
+    this.onChangeCallback = null;
+    this.keyboard = null;
+    logger.info('OnScreenKeyboardManager destroyed');
+  }
+}
@@ -0,0 +1,190 @@
+import { createLogger } from '../utils/logger';
+import { Keysym, keysymFromCharacter } from './Keysyms';
+import { KeyboardStateManager } from './KeyboardStateManager';
+
+const logger = createLogger('PasteTypingManager');
+
+export type TypingStatus = 'idle' | 'typing' | 'paused';
+
+export interface TypingProgress {
+  status: TypingStatus;
+  typed: number;
+  total: number;
+}
+
+export interface PasteTypingConfig {
+  // Pause between characters; slow consoles drop keys when flooded
+  charDelayMs: number;
+  // Extra pause after Enter while the remote side processes the line
+  lineDelayMs: number;
+}
+
+/**
+ * Turns text into one keysym per character. Line endings become Return,
+ * tabs become Tab and any other control character is dropped.
+ */
+export const textToKeysyms = (text: string): number[] => {
+  const keysyms: number[] = [];
+
+  Array.from(text.replace(/\r\n?/g, '\n')).forEach((character) => {
+    if (character === '\n') {
+      keysyms.push(Keysym.RETURN);
+    } else if (character === '\t') {
+      keysyms.push(Keysym.TAB);
+    } else if (character >= ' ' && character !== '\u007f') {
+      keysyms.push(keysymFromCharacter(character));
+    }
+  });
+
+  return keysyms;
+};
+
+export class PasteTypingManager {
+  private keyboardStateManager: KeyboardStateManager;
+  private queue: number[] = [];
+  private typed: number = 0;
+  private status: TypingStatus = 'idle';
+  private timer: number | null = null;
+  // Delays for the text being typed: the defaults plus that call's options
+  private runConfig: PasteTypingConfig;
+
+  private onProgressCallback: ((progress: TypingProgress) => void) | null = null;
+
+  private config: PasteTypingConfig = {
+    charDelayMs: 30,
+    lineDelayMs: 150,
+  };
+
+  constructor(keyboardStateManager: KeyboardStateManager, config?: Partial<PasteTypingConfig>) {
+    this.keyboardStateManager = keyboardStateManager;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.runConfig = this.config;
+    logger.info('PasteTypingManager initialized', this.config);
+  }
+
+  /**
+   * Starts typing, replacing anything still in progress. Options apply to
+   * this text only.
+   */
+  type(text: string, options?: Partial<PasteTypingConfig>): void {
+    this.cancel();
+
+    this.runConfig = { ...this.config, ...options };
+    this.queue = textToKeysyms(text);
+    this.typed = 0;
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    logger.info('Typing text', { characters: this.queue.length, ...this.runConfig });
+    this.status = 'typing';
+    this.notifyProgress();
+    this.scheduleNext(0);
+  }
+
+  private scheduleNext(delayMs: number): void {
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.typeNext();
+    }, delayMs);
+  }
+
+  private typeNext(): void {
+    if (this.status !== 'typing') {
+      return;
+    }
+
+    const keysym = this.queue[this.typed];
+
+    try {
+      this.keyboardStateManager.sendKeyEvent(true, keysym);
+      this.keyboardStateManager.sendKeyEvent(false, keysym);
+    } catch (error) {
+      logger.error('Failed to type character', { keysym, error });
+      this.finish();
+      return;
+    }
+
+    this.typed++;
+
+    if (this.typed >= this.queue.length) {
+      logger.info('Typing finished', { characters: this.typed });
+      this.finish();
+      return;
+    }
+
+    this.notifyProgress();
+    this.scheduleNext(keysym === Keysym.RETURN ? this.runConfig.lineDelayMs : this.runConfig.charDelayMs);
+  }
+
+  pause(): void {
+    if (this.status !== 'typing') {
+      return;
+    }
+
+    this.clearTimer();
+    this.status = 'paused';
+    logger.info('Typing paused', { typed: this.typed, total: this.queue.length });
+    this.notifyProgress();
+  }
+
+  resume(): void {
+    if (this.status !== 'paused') {
+      return;
+    }
+
+    this.status = 'typing';
+    logger.info('Typing resumed', { typed: this.typed, total: this.queue.length });
+    this.notifyProgress();
+    this.scheduleNext(0);
+  }
+
+  cancel(): void {
+    if (this.status === 'idle') {
+      return;
+    }
+
+    logger.info('Typing cancelled', { typed: this.typed, total: this.queue.length });
+    this.finish();
+  }
+
+  private finish(): void {
+    this.clearTimer();
+    this.status = 'idle';
+    this.notifyProgress();
+    this.queue = [];
+    this.typed = 0;
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getProgress(): TypingProgress {
+    return { status: this.status, typed: this.typed, total: this.queue.length };
+  }
+
+  onProgress(callback: (progress: TypingProgress) => void): void {
+    this.onProgressCallback = callback;
+  }
+
+  private notifyProgress(): void {
+    if (this.onProgressCallback) {
+      this.onProgressCallback(this.getProgress());
+    }
+  }
+
+  destroy(): void {
+    this.cancel();
+    this.onProgressCallback = null;
+    logger.info('PasteTypingManager destroyed');
+  }
+}
@@ -0,0 +1,106 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ReconnectManager');
+
+export interface ReconnectConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+}
+
+export interface ReconnectProgress {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export class ReconnectManager {
+  private attempt: number = 0;
+  private timer: number | null = null;
+
+  private config: ReconnectConfig = {
+    maxAttempts: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    jitterRatio: 0.3,
+  };
+
+  constructor(config?: Partial<ReconnectConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    logger.info('ReconnectManager initialized', this.config);
+  }
+
+  canRetry(): boolean {
+    return this.attempt < this.config.maxAttempts;
+  }
+
+  isPending(): boolean {
+    return this.timer !== null;
+  }
+
+  getAttempt(): number {
+    return this.attempt;
+  }
+
+  getMaxAttempts(): number {
+    return this.config.maxAttempts;
+  }
+
+  /**
+   * Schedules the next attempt and returns its progress, or null once the
+   * attempt budget is exhausted.
+   */
+  schedule(callback: () => void): ReconnectProgress | null {
+    if (!this.canRetry()) {
+      logger.warn('Reconnect attempts exhausted', { attempts: this.attempt });
+      return null;
+    }
+
+    this.cancel();
+    this.attempt++;
+
+    const delayMs = this.calculateDelay(this.attempt);
+
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      callback();
+    }, delayMs);
+
+    logger.info('Reconnect scheduled', {
+      attempt: this.attempt,
+      maxAttempts: this.config.maxAttempts,
+      delayMs,
+    });
+
+    return { attempt: this.attempt, maxAttempts: this.config.maxAttempts, delayMs };
+  }
+
+  private calculateDelay(attempt: number): number {
+    const exponential = this.config.baseDelayMs * Math.pow(2, attempt - 1);
+    const capped = Math.min(exponential, this.config.maxDelayMs);
+    const jitter = capped * this.config.jitterRatio * (Math.random() * 2 - 1);
+
+    return Math.max(0, Math.round(capped + jitter));
+  }
+
+  cancel(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  reset(): void {
+    this.cancel();
+    this.attempt = 0;
+  }
+
+  destroy(): void {
+    this.reset();
+    logger.info('ReconnectManager destroyed');
+  }
+}
@@ -0,0 +1,230 @@
+import { createLogger } from '../utils/logger';
+import { GuacamoleStatusCode } from './GuacamoleError';
+import { FileTransferManager } from './FileTransferManager';
+import Guacamole from 'guacamole-common-js';
+
+const logger = createLogger('RemoteFilesystemManager');
+
+export interface RemoteFilesystem {
+  index: number;
+  name: string;
+}
+
+export interface RemoteFile {
+  name: string;
+  path: string;
+  mimetype: string;
+  type: 'directory' | 'file';
+}
+
+interface FilesystemEntry extends RemoteFilesystem {
+  object: any;
+}
+
+export interface RemoteFilesystemConfig {
+  // The server may never answer a listing, e.g. for a path that vanished
+  listTimeoutMs: number;
+}
+
+interface PendingListing {
+  index: number;
+  reject: (error: Error) => void;
+}
+
+export class RemoteFilesystemManager {
+  private client: any;
+  private fileTransferManager: FileTransferManager;
+  private filesystems: Map<number, FilesystemEntry> = new Map();
+  private pendingListings: Set<PendingListing> = new Set();
+
+  private onChangeCallback: ((filesystems: RemoteFilesystem[]) => void) | null = null;
+
+  private config: RemoteFilesystemConfig = {
+    listTimeoutMs: 15000,
+  };
+
+  constructor(client: any, fileTransferManager: FileTransferManager, config?: Partial<RemoteFilesystemConfig>) {
+    this.client = client;
+    this.fileTransferManager = fileTransferManager;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.setupFilesystemHandler();
+    logger.info('RemoteFilesystemManager initialized');
+  }
+
+  /**
+   * RDP drive redirection and SFTP each expose a Guacamole.Object whose
+   * streams are named by path; directories are stream indexes.
+   */
+  private setupFilesystemHandler(): void {
+    this.client.onfilesystem = (object: any, name: string) => {
+      logger.info('Remote filesystem exposed', { index: object.index, name });
+
+      this.filesystems.set(object.index, { index: object.index, name, object });
+
+      object.onundefine = () => {
+        logger.info('Remote filesystem removed', { index: object.index, name });
+        this.filesystems.delete(object.index);
+        this.rejectPending(new Error(`${name} is no longer available`), object.index);
+        this.notifyChange();
+      };
+
+      this.notifyChange();
+    };
+  }
+
+  private getObject(index: number): any {
+    const entry = this.filesystems.get(index);
+    if (!entry) {
+      throw new Error(`Unknown filesystem ${index}`);
+    }
+    return entry.object;
+  }
+
+  /**
+   * Rejects when the listing times out, the filesystem goes away or the
+   * session ends, so callers never wait forever.
+   */
+  listDirectory(index: number, path: string = Guacamole.Object.ROOT_STREAM): Promise<RemoteFile[]> {
+    return new Promise((resolveListing, rejectListing) => {
+      let object: any;
+      try {
+        object = this.getObject(index);
+      } catch (error) {
+        rejectListing(error);
+        return;
+      }
+
+      const finish = () => {
+        window.clearTimeout(timer);
+        this.pendingListings.delete(pending);
+      };
+      const resolve = (files: RemoteFile[]) => {
+        finish();
+        resolveListing(files);
+      };
+      const reject = (error: Error) => {
+        finish();
+        rejectListing(error);
+      };
+
+      const pending: PendingListing = { index, reject };
+      this.pendingListings.add(pending);
+
+      const timer = window.setTimeout(() => {
+        logger.warn('Remote directory listing timed out', { index, path });
+        reject(new Error(`The remote desktop did not list ${path}`));
+      }, this.config.listTimeoutMs);
+
+      object.requestInputStream(path, (stream: any, mimetype: string) => {
+        if (mimetype !== Guacamole.Object.STREAM_INDEX_MIMETYPE) {
+          stream.sendAck('Unexpected mimetype', GuacamoleStatusCode.UNSUPPORTED);
+          reject(new Error(`${path} is not a directory`));
+          return;
+        }
+
+        // The server sends the index only after "Ready" and waits for an ack
+        // per blob, which JSONReader does not send on its own
+        stream.sendAck('Ready', GuacamoleStatusCode.SUCCESS);
+
+        const reader = new Guacamole.JSONReader(stream);
+        reader.onprogress = () => {
+          stream.sendAck('Received', GuacamoleStatusCode.SUCCESS);
+        };
+
+        reader.onend = () => {
+          try {
+            const streamIndex: Record<string, string> = reader.getJSON();
+            const files = Object.keys(streamIndex).map((streamName) =>
+              this.toRemoteFile(streamName, streamIndex[streamName])
+            );
+
+            files.sort((a, b) => {
+              if (a.type !== b.type) {
+                return a.type === 'directory' ? -1 : 1;
+              }
+              return a.name.localeCompare(b.name);
+            });
+
+            logger.debug('Remote directory listed', { index, path, entries: files.length });
+            resolve(files);
+          } catch (error) {
+            logger.error('Failed to parse remote directory listing', { path, error });
+            reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        };
+      });
+    });
+  }
+
+  private toRemoteFile(streamName: string, mimetype: string): RemoteFile {
+    const segments = streamName.split('/').filter(Boolean);
+
+    return {
+      name: segments[segments.length - 1] ?? streamName,
+      path: streamName,
+      mimetype,
+      type: mimetype === Guacamole.Object.STREAM_INDEX_MIMETYPE ? 'directory' : 'file',
+    };
+  }
+
+  download(index: number, path: string): void {
+    const object = this.getObject(index);
+    const filename = path.split('/').filter(Boolean).pop() ?? path;
+
+    object.requestInputStream(path, (stream: any, mimetype: string) => {
+      this.fileTransferManager.receive(stream, mimetype, filename);
+    });
+  }
+
+  upload(index: number, directory: string, files: File[]): void {
+    const object = this.getObject(index);
+    const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+
+    this.fileTransferManager.upload(files, (mimetype, filename) =>
+      object.createOutputStream(mimetype, `${prefix}${filename}`)
+    );
+  }
+
+  getFilesystems(): RemoteFilesystem[] {
+    return Array.from(this.filesystems.values()).map(({ index, name }) => ({ index, name }));
+  }
+
+  onChange(callback: (filesystems: RemoteFilesystem[]) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getFilesystems());
+    }
+  }
+
+  // Without an index, every pending listing is rejected
+  private rejectPending(error: Error, index?: number): void {
+    Array.from(this.pendingListings)
+      .filter((pending) => index === undefined || pending.index === index)
+      .forEach((pending) => pending.reject(error));
+  }
+
+  destroy(): void {
+    this.rejectPending(new Error('The remote desktop session ended'));
+
+    this.filesystems.forEach((entry) => {
+      entry.object.onundefine = null;
+    });
+    this.filesystems.clear();
+    this.notifyChange();
+
+    if (this.client) {
+      this.client.onfilesystem = null;
+    }
+
+    this.onChangeCallback = null;
+    this.client = null;
+    logger.info('RemoteFilesystemManager destroyed');
+  }
+}
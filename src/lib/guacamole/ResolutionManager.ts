@@ -1,13 +1,53 @@
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
 
-export interface ResolutionConfig {
+const logger = createLogger('ResolutionManager');
+
+// dynamic follows the container, fixed holds a chosen size and lock keeps
+// whatever the container measured when the session started
+export type ResolutionMode = 'dynamic' | 'fixed' | 'lock';
+
+export interface ResolutionSettings {
+  mode: ResolutionMode;
+  // Size held by fixed and lock modes, null until lock has measured it
+  width: number | null;
+  height: number | null;
+}
+
+export interface ResolutionState extends ResolutionSettings {
+  // Whether the remote applied the last request, null while waiting
+  honored: boolean | null;
+}
+
+// requested: sent to the remote; display: the remote display changed size;
+// ignored: the remote did not apply a request in time; mode: the user switched mode
+export interface ResolutionHistoryEntry {
+  timestamp: number;
+  event: 'requested' | 'display' | 'ignored' | 'mode';
+  width: number | null;
+  height: number | null;
+  mode: ResolutionMode;
+}
+
+export interface ResolutionConfig extends ResolutionSettings {
   minWidth: number;
   minHeight: number;
   maxWidth: number;
   maxHeight: number;
   debounceMs: number;
+  // How long the remote gets to change size before the request counts as ignored
+  honorTimeoutMs: number;
+  // Difference in pixels still treated as the requested size, for servers that round
+  sizeTolerance: number;
 }
 
+export const RESOLUTION_PRESETS: Array<{ width: number; height: number }> = [
+  { width: 1280, height: 720 },
+  { width: 1366, height: 768 },
+  { width: 1600, height: 900 },
+  { width: 1920, height: 1080 },
+  { width: 2560, height: 1440 },
+];
+
 export class ResolutionManager {
   private client: any;
   private container: HTMLElement;
@@ -16,13 +56,25 @@ export class ResolutionManager {
   private lastWidth: number = 0;
   private lastHeight: number = 0;
   private isActive: boolean = false;
+  private honored: boolean | null = null;
+  private honorTimer: number | null = null;
+
+  private onSizeSentCallback: ((width: number, height: number) => void) | null = null;
+  private onChangeCallback: ((state: ResolutionState) => void) | null = null;
+  private onIgnoredCallback: ((requested: { width: number; height: number }) => void) | null = null;
+  private onHistoryCallback: ((entry: ResolutionHistoryEntry) => void) | null = null;
 
   private config: ResolutionConfig = {
+    mode: 'dynamic',
+    width: null,
+    height: null,
     minWidth: 640,
     minHeight: 480,
     maxWidth: 4096,
     maxHeight: 4096,
     debounceMs: 250,
+    honorTimeoutMs: 5000,
+    sizeTolerance: 8,
   };
 
   constructor(client: any, container: HTMLElement, config?: Partial<ResolutionConfig>) {
@@ -75,6 +127,8 @@ export class ResolutionManager {
       this.debounceTimer = null;
     }
 
+    this.clearHonorTimer();
+
     logger.info('ResolutionManager stopped');
   }
 
@@ -83,6 +137,11 @@ export class ResolutionManager {
   };
 
   private scheduleResize(): void {
+    // Only dynamic mode follows the container
+    if (this.config.mode !== 'dynamic') {
+      return;
+    }
+
     if (this.debounceTimer !== null) {
       window.clearTimeout(this.debounceTimer);
     }
@@ -94,12 +153,36 @@ export class ResolutionManager {
   }
 
   private sendInitialSize(): void {
-    const { width, height } = this.calculateOptimalSize();
+    const { width, height } = this.getTargetSize();
+
+    if (this.config.mode === 'lock' && this.config.width === null) {
+      this.config.width = width;
+      this.config.height = height;
+      logger.info('Resolution locked to first size', { width, height });
+    }
+
     this.sendSizeUpdate(width, height);
   }
 
+  /**
+   * Size and DPI for the connect handshake, so the session starts at the
+   * right resolution instead of resizing right after it opens.
+   */
+  getHandshakeParams(): string {
+    const { width, height } = this.getTargetSize();
+    const dpi = Math.floor((window.devicePixelRatio || 1) * 96);
+    return `&GUAC_WIDTH=${width}&GUAC_HEIGHT=${height}&GUAC_DPI=${dpi}`;
+  }
+
+  private getTargetSize(): { width: number; height: number } {
+    if (this.config.mode !== 'dynamic' && this.config.width !== null && this.config.height !== null) {
+      return { width: this.config.width, height: this.config.height };
+    }
+    return this.calculateOptimalSize();
+  }
+
   private performResize(): void {
-    const { width, height } = this.calculateOptimalSize();
+    const { width, height } = this.getTargetSize();
 
     if (width === this.lastWidth && height === this.lastHeight) {
       logger.debug('Resolution unchanged, skipping update');
@@ -121,10 +204,9 @@ export class ResolutionManager {
     let width = Math.floor(containerWidth * devicePixelRatio);
     let height = Math.floor(containerHeight * devicePixelRatio);
 
-    // Apply constraints
-    width = Math.max(this.config.minWidth, Math.min(width, this.config.maxWidth));
-    height = Math.max(this.config.minHeight, Math.min(height, this.config.maxHeight));
+    ({ width, height } = this.constrainSize(width, height));
 
+    // Only sizes derived from the container are rounded; presets are sent as chosen
     width = Math.floor(width / 4) * 4;
     height = Math.floor(height / 4) * 4;
 
@@ -139,6 +221,13 @@ export class ResolutionManager {
     return { width, height };
   }
 
+  private constrainSize(width: number, height: number): { width: number; height: number } {
+    width = Math.max(this.config.minWidth, Math.min(width, this.config.maxWidth));
+    height = Math.max(this.config.minHeight, Math.min(height, this.config.maxHeight));
+
+    return { width, height };
+  }
+
   private sendSizeUpdate(width: number, height: number): void {
     if (!this.client) {
       logger.warn('Cannot send size update: client not available');
@@ -151,18 +240,164 @@ export class ResolutionManager {
       this.lastHeight = height;
 
       logger.info('Resolution update sent to remote', { width, height });
+      this.recordHistory('requested', width, height);
+
+      if (this.onSizeSentCallback) {
+        this.onSizeSentCallback(width, height);
+      }
+
+      this.watchForResize();
     } catch (error) {
       logger.error('Failed to send size update', error);
     }
   }
 
+  /**
+   * Plain VNC servers and some RDP hosts ignore size requests, so the request
+   * only counts once the display actually reaches the size.
+   */
+  private watchForResize(): void {
+    this.clearHonorTimer();
+
+    const display = this.client.getDisplay();
+    if (this.matchesLastSent(display.getWidth(), display.getHeight())) {
+      this.setHonored(true);
+      return;
+    }
+
+    this.setHonored(null);
+    this.honorTimer = window.setTimeout(() => {
+      this.honorTimer = null;
+
+      logger.warn('Remote ignored resolution request', {
+        requested: `${this.lastWidth}x${this.lastHeight}`,
+        actual: `${display.getWidth()}x${display.getHeight()}`,
+      });
+      this.setHonored(false);
+      this.recordHistory('ignored', this.lastWidth, this.lastHeight);
+
+      if (this.onIgnoredCallback) {
+        this.onIgnoredCallback({ width: this.lastWidth, height: this.lastHeight });
+      }
+    }, this.config.honorTimeoutMs);
+  }
+
+  /**
+   * Called with every remote display resize.
+   */
+  handleDisplayResize(width: number, height: number): void {
+    this.recordHistory('display', width, height);
+
+    if (this.lastWidth === 0 || !this.matchesLastSent(width, height)) {
+      return;
+    }
+
+    this.clearHonorTimer();
+    if (this.honored !== true) {
+      logger.info('Remote applied resolution request', { width, height });
+    }
+    this.setHonored(true);
+  }
+
+  private matchesLastSent(width: number, height: number): boolean {
+    return (
+      Math.abs(width - this.lastWidth) <= this.config.sizeTolerance &&
+      Math.abs(height - this.lastHeight) <= this.config.sizeTolerance
+    );
+  }
+
+  private clearHonorTimer(): void {
+    if (this.honorTimer !== null) {
+      window.clearTimeout(this.honorTimer);
+      this.honorTimer = null;
+    }
+  }
+
+  private setHonored(honored: boolean | null): void {
+    if (this.honored !== honored) {
+      this.honored = honored;
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Switches mode. Fixed needs a size; lock takes the container's size now.
+   */
+  setMode(mode: ResolutionMode, size?: { width: number; height: number }): void {
+    const target = mode === 'lock' ? this.calculateOptimalSize() : size && this.constrainSize(size.width, size.height);
+
+    this.config.mode = mode;
+    this.config.width = mode === 'dynamic' ? null : target?.width ?? this.lastWidth;
+    this.config.height = mode === 'dynamic' ? null : target?.height ?? this.lastHeight;
+
+    logger.info('Resolution mode changed', { mode, width: this.config.width, height: this.config.height });
+    this.recordHistory('mode', this.config.width, this.config.height);
+    this.notifyChange();
+
+    if (this.isActive) {
+      this.performResize();
+    }
+  }
+
+  getState(): ResolutionState {
+    return {
+      mode: this.config.mode,
+      width: this.config.width,
+      height: this.config.height,
+      honored: this.honored,
+    };
+  }
+
+  getLastSentSize(): { width: number; height: number } | null {
+    if (this.lastWidth === 0 || this.lastHeight === 0) {
+      return null;
+    }
+    return { width: this.lastWidth, height: this.lastHeight };
+  }
+
   forceResize(): void {
     logger.info('Force resize requested');
     this.performResize();
   }
 
+  onSizeSent(callback: (width: number, height: number) => void): void {
+    this.onSizeSentCallback = callback;
+  }
+
+  onChange(callback: (state: ResolutionState) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.getState());
+    }
+  }
+
+  onIgnored(callback: (requested: { width: number; height: number }) => void): void {
+    this.onIgnoredCallback = callback;
+  }
+
+  /**
+   * Every size request, remote resize and mode switch, for diagnostics that
+   * outlive this session.
+   */
+  onHistory(callback: (entry: ResolutionHistoryEntry) => void): void {
+    this.onHistoryCallback = callback;
+  }
+
+  private recordHistory(event: ResolutionHistoryEntry['event'], width: number | null, height: number | null): void {
+    if (this.onHistoryCallback) {
+      this.onHistoryCallback({ timestamp: Date.now(), event, width, height, mode: this.config.mode });
+    }
+  }
+
   destroy(): void {
     this.stop();
+    this.onSizeSentCallback = null;
+    this.onChangeCallback = null;
+    this.onIgnoredCallback = null;
+    this.onHistoryCallback = null;
     this.client = null;
     logger.info('ResolutionManager destroyed');
   }
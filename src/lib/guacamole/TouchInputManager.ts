@@ -0,0 +1,280 @@
+import { createLogger } from '../utils/logger';
+import Guacamole from 'guacamole-common-js';
+import { DisplayScaleManager } from './DisplayScaleManager';
+
+const logger = createLogger('TouchInputManager');
+
+export type TouchMode = 'touchpad' | 'touchscreen';
+
+export interface TouchInputConfig {
+  mode: TouchMode;
+  // Hold time before a still finger becomes a right-click in touchpad mode
+  longPressMs: number;
+  // Finger travel (CSS px) that cancels a long-press
+  longPressMoveThreshold: number;
+  // Vertical two-finger travel (CSS px) per scroll wheel step
+  scrollStep: number;
+  // Change in finger distance (CSS px) that turns a two-finger gesture into a pinch
+  pinchThreshold: number;
+}
+
+type TwoFingerGesture = 'pending' | 'scroll' | 'pinch';
+
+interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+export class TouchInputManager {
+  private client: any;
+  private display: any;
+  private element: HTMLElement;
+  private container: HTMLElement;
+  private scaleManager: DisplayScaleManager;
+
+  private touchpad: any;
+  private touchscreen: any;
+  private mode: TouchMode;
+
+  // Last state sent to the server, in display element coordinates
+  private lastState: any = new Guacamole.Mouse.State();
+
+  private longPressTimer: number | null = null;
+  private longPressStart: TouchPoint | null = null;
+
+  private gesture: TwoFingerGesture | null = null;
+  private gestureStartDistance: number = 0;
+  private gestureStartScale: number = 1;
+  private gestureMidpoint: TouchPoint = { x: 0, y: 0 };
+  private scrollRemainder: number = 0;
+
+  private config: TouchInputConfig = {
+    mode: 'touchscreen',
+    longPressMs: 500,
+    longPressMoveThreshold: 10,
+    scrollStep: 20,
+    pinchThreshold: 30,
+  };
+
+  constructor(
+    client: any,
+    display: any,
+    container: HTMLElement,
+    scaleManager: DisplayScaleManager,
+    config?: Partial<TouchInputConfig>
+  ) {
+    this.client = client;
+    this.display = display;
+    this.element = display.getElement();
+    this.container = container;
+    this.scaleManager = scaleManager;
+
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+
+    this.mode = this.config.mode;
+
+    // Stop the browser from panning or zooming the page under the session
+    this.element.style.touchAction = 'none';
+
+    // Both emulations listen on the element for the session's lifetime and
+    // cannot be detached, so the inactive one is simply not forwarded
+    this.touchpad = new Guacamole.Mouse.Touchpad(this.element);
+    this.touchscreen = new Guacamole.Mouse.Touchscreen(this.element);
+    this.bindEmulation(this.touchpad, 'touchpad');
+    this.bindEmulation(this.touchscreen, 'touchscreen');
+
+    this.element.addEventListener('touchstart', this.onTouchStart, { passive: true });
+    this.element.addEventListener('touchmove', this.onTouchMove, { passive: true });
+    this.element.addEventListener('touchend', this.onTouchEnd, { passive: true });
+    this.element.addEventListener('touchcancel', this.onTouchEnd, { passive: true });
+
+    this.applyMode();
+    logger.info('TouchInputManager initialized', this.config);
+  }
+
+  private bindEmulation(emulation: any, mode: TouchMode): void {
+    emulation.onmousedown =
+      emulation.onmouseup =
+      emulation.onmousemove =
+        (mouseState: any) => {
+          if (this.mode !== mode) {
+            return;
+          }
+
+          // Touchpad scrolls on its own two-finger swipe; ours also handles pinch
+          if (mouseState.up || mouseState.down) {
+            return;
+          }
+
+          this.sendMouseState(mouseState);
+        };
+  }
+
+  private sendMouseState(mouseState: any): void {
+    this.lastState = new Guacamole.Mouse.State(mouseState);
+    if (this.client) {
+      this.client.sendMouseState(this.scaleManager.toRemoteState(mouseState));
+    }
+  }
+
+  private clickButton(button: 'right' | 'up' | 'down'): void {
+    const state = new Guacamole.Mouse.State(this.lastState);
+    state[button] = true;
+    this.sendMouseState(state);
+    state[button] = false;
+    this.sendMouseState(state);
+  }
+
+  setMode(mode: TouchMode): void {
+    if (this.mode === mode) {
+      return;
+    }
+
+    this.mode = mode;
+    this.applyMode();
+    logger.info('Touch mode changed', { mode });
+  }
+
+  getMode(): TouchMode {
+    return this.mode;
+  }
+
+  private applyMode(): void {
+    // A relative pointer is invisible without the remote cursor drawn in place
+    this.display.showCursor(this.mode === 'touchpad');
+
+    if (this.mode === 'touchpad') {
+      this.touchpad.currentState.x = this.lastState.x;
+      this.touchpad.currentState.y = this.lastState.y;
+    }
+  }
+
+  private onTouchStart = (event: TouchEvent): void => {
+    this.cancelLongPress();
+
+    if (event.touches.length === 1) {
+      // Touchscreen mode has its own long-press right-click
+      if (this.mode === 'touchpad') {
+        const touch = event.touches[0];
+        this.longPressStart = { x: touch.clientX, y: touch.clientY };
+        this.longPressTimer = window.setTimeout(() => {
+          this.longPressTimer = null;
+          this.clickButton('right');
+        }, this.config.longPressMs);
+      }
+      return;
+    }
+
+    if (event.touches.length === 2) {
+      this.gesture = 'pending';
+      this.gestureStartDistance = this.getDistance(event.touches);
+      this.gestureStartScale = this.scaleManager.getScale();
+      this.gestureMidpoint = this.getMidpoint(event.touches);
+      this.scrollRemainder = 0;
+      return;
+    }
+
+    this.gesture = null;
+  };
+
+  private onTouchMove = (event: TouchEvent): void => {
+    if (this.longPressStart && event.touches.length === 1) {
+      const touch = event.touches[0];
+      const moved = Math.hypot(touch.clientX - this.longPressStart.x, touch.clientY - this.longPressStart.y);
+      if (moved >= this.config.longPressMoveThreshold) {
+        this.cancelLongPress();
+      }
+    }
+
+    if (!this.gesture || event.touches.length !== 2) {
+      return;
+    }
+
+    const distance = this.getDistance(event.touches);
+    const midpoint = this.getMidpoint(event.touches);
+    const deltaX = midpoint.x - this.gestureMidpoint.x;
+    const deltaY = midpoint.y - this.gestureMidpoint.y;
+
+    if (this.gesture === 'pending') {
+      if (Math.abs(distance - this.gestureStartDistance) >= this.config.pinchThreshold) {
+        this.gesture = 'pinch';
+      } else if (Math.abs(deltaY) >= this.config.scrollStep) {
+        this.gesture = 'scroll';
+      } else {
+        return;
+      }
+    }
+
+    if (this.gesture === 'pinch') {
+      this.scaleManager.setZoom(this.gestureStartScale * (distance / this.gestureStartDistance) * 100);
+
+      // Moving both fingers pans the zoomed display
+      this.container.scrollLeft -= deltaX;
+      this.container.scrollTop -= deltaY;
+    } else {
+      this.scroll(deltaY);
+    }
+
+    this.gestureMidpoint = midpoint;
+  };
+
+  private onTouchEnd = (event: TouchEvent): void => {
+    this.cancelLongPress();
+
+    if (event.touches.length < 2) {
+      this.gesture = null;
+    }
+  };
+
+  /**
+   * Fingers moving up scroll the content down, matching the tablet's own
+   * natural scrolling.
+   */
+  private scroll(deltaY: number): void {
+    this.scrollRemainder += deltaY;
+
+    while (Math.abs(this.scrollRemainder) >= this.config.scrollStep) {
+      const up = this.scrollRemainder > 0;
+      this.clickButton(up ? 'up' : 'down');
+      this.scrollRemainder -= up ? this.config.scrollStep : -this.config.scrollStep;
+    }
+  }
+
+  private cancelLongPress(): void {
+    if (this.longPressTimer !== null) {
+      window.clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+    this.longPressStart = null;
+  }
+
+  private getDistance(touches: TouchList): number {
+    return Math.hypot(touches[1].clientX - touches[0].clientX, touches[1].clientY - touches[0].clientY);
+  }
+
+  private getMidpoint(touches: TouchList): TouchPoint {
+    return {
+      x: (touches[0].clientX + touches[1].clientX) / 2,
+      y: (touches[0].clientY + touches[1].clientY) / 2,
+    };
+  }
+
+  destroy(): void {
+    this.cancelLongPress();
+
+    this.element.removeEventListener('touchstart', this.onTouchStart);
+    this.element.removeEventListener('touchmove', this.onTouchMove);
+    this.element.removeEventListener('touchend', this.onTouchEnd);
+    this.element.removeEventListener('touchcancel', this.onTouchEnd);
+
+    [this.touchpad, this.touchscreen].forEach((emulation) => {
+      emulation.onmousedown = emulation.onmouseup = emulation.onmousemove = null;
+    });
+
+    this.display.showCursor(false);
+    this.client = null;
+    logger.info('TouchInputManager destroyed');
+  }
+}
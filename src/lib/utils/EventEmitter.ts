@@ -0,0 +1,58 @@
+import { createLogger } from './logger';
+
+const logger = createLogger('EventEmitter');
+
+export type EventListener<T> = (payload: T) => void;
+export type Unsubscribe = () => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): Unsubscribe {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners[event];
+    if (!set || set.size === 0) {
+      return;
+    }
+
+    // Copy so listeners can unsubscribe while being notified
+    Array.from(set).forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        // One broken subscriber must not starve the others
+        logger.error('Event listener failed', { event: String(event), error });
+      }
+    });
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners[event]?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,249 @@
+import { LogLevel, LogRecord, LogSink } from './logger';
+
+export interface HttpLogSinkConfig {
+  url: string;
+  level: LogLevel;
+  // Records per request
+  batchSize: number;
+  // Serialized size per request. keepalive fetches and sendBeacon both refuse
+  // bodies over 64 KB, so batches stay under that.
+  maxBatchBytes: number;
+  // Larger records keep their message but lose their data
+  maxRecordBytes: number;
+  flushIntervalMs: number;
+  // Oldest records are dropped past this, e.g. during a long outage
+  maxQueue: number;
+  maxRetryDelayMs: number;
+}
+
+interface QueuedRecord {
+  record: LogRecord;
+  bytes: number;
+}
+
+// Room for `{"records":[],"dropped":N}` around the records
+const ENVELOPE_BYTES = 64;
+
+// Messages are cut to this many characters in oversized records
+const MAX_TRUNCATED_MESSAGE = 1000;
+
+const encoder = new TextEncoder();
+
+const byteLength = (value: unknown): number => encoder.encode(JSON.stringify(value)).length;
+
+// Other client errors mean the collector refuses the batch itself, and
+// sending it again would block the queue behind it for good
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Ships records to a collector in batches. Failed batches stay queued and are
+ * retried with backoff, and right away when the browser comes back online.
+ * Batches the collector rejects with a client error are dropped instead.
+ *
+ * The collector receives `POST { records: LogRecord[], dropped: number }` as
+ * JSON, where `dropped` counts records lost to the queue limit or to rejected
+ * batches.
+ *
+ * Deliberately does not log through the logger, which would feed its own
+ * failures back into the queue.
+ */
+export class HttpLogSink implements LogSink {
+  readonly name = 'http';
+  level: LogLevel;
+
+  private queue: QueuedRecord[] = [];
+  private sending: boolean = false;
+  // Batch of the fetch in progress, left out of page hide beacons
+  private inFlight: Set<QueuedRecord> = new Set();
+  private failures: number = 0;
+  private timer: number | null = null;
+  private dropped: number = 0;
+
+  private config: HttpLogSinkConfig;
+
+  constructor(config: Partial<HttpLogSinkConfig> & { url: string }) {
+    this.config = {
+      level: LogLevel.INFO,
+      batchSize: 50,
+      maxBatchBytes: 60000,
+      maxRecordBytes: 16384,
+      flushIntervalMs: 5000,
+      maxQueue: 1000,
+      maxRetryDelayMs: 60000,
+      ...config,
+    };
+    this.level = this.config.level;
+
+    window.addEventListener('online', this.onOnline);
+    window.addEventListener('pagehide', this.onPageHide);
+  }
+
+  write(record: LogRecord): void {
+    this.queue.push(this.prepare(record));
+
+    if (this.queue.length > this.config.maxQueue) {
+      this.dropped += this.queue.length - this.config.maxQueue;
+      this.queue.splice(0, this.queue.length - this.config.maxQueue);
+    }
+
+    const full =
+      this.queue.length >= this.config.batchSize || this.takeBatch(this.queue).length < this.queue.length;
+
+    if (full && this.failures === 0) {
+      this.flush();
+    } else {
+      this.schedule(this.config.flushIntervalMs);
+    }
+  }
+
+  flush(): void {
+    if (this.sending || this.queue.length === 0) {
+      return;
+    }
+
+    if (!navigator.onLine) {
+      // The online event flushes once the network is back
+      return;
+    }
+
+    this.clearTimer();
+    this.sending = true;
+
+    const batch = this.takeBatch(this.queue);
+    this.inFlight = new Set(batch);
+
+    fetch(this.config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: this.serialize(batch),
+      keepalive: true,
+    })
+      .then((response) => {
+        if (!response.ok && isRetryableStatus(response.status)) {
+          throw new Error(`Log collector returned ${response.status}`);
+        }
+
+        // The queue may have been appended to or trimmed while this was in flight
+        const sent = new Set(batch);
+        this.queue = this.queue.filter((entry) => !sent.has(entry));
+        this.failures = 0;
+        this.dropped = response.ok ? 0 : this.dropped + batch.length;
+      })
+      .catch(() => {
+        this.failures++;
+      })
+      .finally(() => {
+        this.sending = false;
+        this.inFlight = new Set();
+
+        if (this.queue.length > 0) {
+          // Replaces any timer set by writes in the meantime, so backoff applies
+          this.clearTimer();
+          this.schedule(this.failures === 0 ? 0 : this.getRetryDelay());
+        }
+      });
+  }
+
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Keeps a record within maxRecordBytes, so that one large payload, e.g. a
+   * diagnostics snapshot, cannot make every batch it is in too large to send.
+   */
+  private prepare(record: LogRecord): QueuedRecord {
+    const bytes = byteLength(record);
+    if (bytes <= this.config.maxRecordBytes) {
+      return { record, bytes };
+    }
+
+    const truncated: LogRecord = {
+      ...record,
+      message: record.message.slice(0, MAX_TRUNCATED_MESSAGE),
+      data: [`[Truncated: ${bytes} bytes]`],
+    };
+    return { record: truncated, bytes: byteLength(truncated) };
+  }
+
+  // Leading records that fit in one request, at least one
+  private takeBatch(entries: QueuedRecord[]): QueuedRecord[] {
+    let bytes = ENVELOPE_BYTES;
+    let count = 0;
+
+    while (count < entries.length && count < this.config.batchSize) {
+      // One byte for the separating comma
+      bytes += entries[count].bytes + 1;
+      if (count > 0 && bytes > this.config.maxBatchBytes) {
+        break;
+      }
+      count++;
+    }
+
+    return entries.slice(0, count);
+  }
+
+  private serialize(batch: QueuedRecord[]): string {
+    return JSON.stringify({ records: batch.map((entry) => entry.record), dropped: this.dropped });
+  }
+
+  private getRetryDelay(): number {
+    return Math.min(this.config.flushIntervalMs * 2 ** (this.failures - 1), this.config.maxRetryDelayMs);
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer !== null) {
+      return;
+    }
+
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private onOnline = (): void => {
+    this.clearTimer();
+    this.failures = 0;
+    this.flush();
+  };
+
+  // sendBeacon survives the page being closed, fetch may not. Beacons share
+  // a 64 KB quota, so as many batches go as the browser accepts. A batch
+  // already being fetched is left to that fetch rather than sent twice.
+  private onPageHide = (): void => {
+    if (!navigator.sendBeacon) {
+      return;
+    }
+
+    let pending = this.queue.filter((entry) => !this.inFlight.has(entry));
+
+    while (pending.length > 0) {
+      const batch = this.takeBatch(pending);
+      const body = new Blob([this.serialize(batch)], { type: 'application/json' });
+
+      if (!navigator.sendBeacon(this.config.url, body)) {
+        return;
+      }
+
+      const sent = new Set(batch);
+      this.queue = this.queue.filter((entry) => !sent.has(entry));
+      pending = pending.slice(batch.length);
+      this.dropped = 0;
+    }
+  };
+
+  destroy(): void {
+    this.clearTimer();
+    window.removeEventListener('online', this.onOnline);
+    window.removeEventListener('pagehide', this.onPageHide);
+    this.onPageHide();
+  }
+}
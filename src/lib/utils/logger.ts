@@ -6,36 +6,349 @@ export enum LogLevel {
   NONE = 4,
 }
 
-class Logger {
-  private level: LogLevel = LogLevel.INFO;
+export interface LogRecord {
+  timestamp: number;
+  level: LogLevel;
+  // Name of the child logger, empty for the root logger
+  source: string;
+  message: string;
+  // Already redacted, safe to keep and to ship
+  data: unknown[];
+}
 
-  setLevel(level: LogLevel): void {
+/**
+ * Destination for log records. Sinks only see records at or above the global
+ * level, and may filter further with their own level.
+ */
+export interface LogSink {
+  readonly name: string;
+  level?: LogLevel;
+  write(record: LogRecord): void;
+  flush?(): void;
+  destroy?(): void;
+}
+
+export interface RedactionConfig {
+  // Values under keys matching this are replaced entirely
+  keyPattern: RegExp;
+  // Applied to every string, including messages and nested values
+  patterns: Array<{ pattern: RegExp; replacement: string }>;
+}
+
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_REDACTION: RedactionConfig = {
+  keyPattern: /token|password|passwd|secret|authorization|cookie|credential|jwt|connectionstring/i,
+  patterns: [
+    { pattern: /eyJ[\w-]+\.[\w-]+\.[\w-]*/g, replacement: REDACTED },
+    { pattern: /\b(token|password|passwd|secret)=[^&\s"']+/gi, replacement: `$1=${REDACTED}` },
+    { pattern: /\bBearer\s+[\w\-.~+/]+=*/gi, replacement: `Bearer ${REDACTED}` },
+  ],
+};
+
+// Deeper structures are cut off rather than walked
+const MAX_DEPTH = 6;
+
+export const LOG_LEVEL_STORAGE_KEY = 'guacamole-log-level';
+
+/**
+ * Accepts a level name in any case ("debug", "WARN") or a LogLevel value.
+ */
+export function parseLogLevel(value: unknown): LogLevel | null {
+  if (typeof value === 'number' && LogLevel[value] !== undefined) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const level = LogLevel[value.trim().toUpperCase() as keyof typeof LogLevel];
+    return level === undefined ? null : level;
+  }
+  return null;
+}
+
+function redactString(value: string, config: RedactionConfig): string {
+  return config.patterns.reduce((text, { pattern, replacement }) => text.replace(pattern, replacement), value);
+}
+
+/**
+ * Copies a value with secrets replaced, by key and by pattern. Errors keep
+ * their name, message and stack; DOM nodes are reduced to a short label.
+ */
+export function redact(value: unknown, config: RedactionConfig = DEFAULT_REDACTION): unknown {
+  const seen = new WeakSet<object>();
+
+  const walk = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') {
+      return redactString(current, config);
+    }
+    if (current === null || typeof current !== 'object') {
+      return typeof current === 'function' || typeof current === 'symbol' ? String(current) : current;
+    }
+
+    if (seen.has(current)) {
+      return '[Circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+      return '[Truncated]';
+    }
+    seen.add(current);
+
+    if (current instanceof Error) {
+      return {
+        name: current.name,
+        message: redactString(current.message, config),
+        stack: current.stack && redactString(current.stack, config),
+      };
+    }
+    if (typeof Node !== 'undefined' && current instanceof Node) {
+      return current instanceof Element
+        ? `<${current.tagName.toLowerCase()}${current.id ? `#${current.id}` : ''}>`
+        : `[${current.nodeName}]`;
+    }
+    if (current instanceof Date) {
+      return current.toISOString();
+    }
+    if (Array.isArray(current)) {
+      return current.map((item) => walk(item, depth + 1));
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(current)) {
+      // Lengths, flags and the like under a matching key are harmless
+      const secret = config.keyPattern.test(key) && (typeof item === 'string' || (typeof item === 'object' && item !== null));
+      copy[key] = secret ? REDACTED : walk(item, depth + 1);
+    }
+    return copy;
+  };
+
+  return walk(value, 0);
+}
+
+const CONSOLE_METHODS: Record<LogLevel, 'debug' | 'info' | 'warn' | 'error' | 'log'> = {
+  [LogLevel.DEBUG]: 'debug',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.WARN]: 'warn',
+  [LogLevel.ERROR]: 'error',
+  [LogLevel.NONE]: 'log',
+};
+
+/**
+ * Writes to the browser console with the familiar `[GUAC-LEVEL]` prefixes.
+ */
+export class ConsoleSink implements LogSink {
+  readonly name = 'console';
+  level?: LogLevel;
+
+  constructor(level?: LogLevel) {
     this.level = level;
   }
 
-  debug(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.DEBUG) {
-      console.debug(`[GUAC-DEBUG] ${message}`, ...args);
+  write(record: LogRecord): void {
+    const prefix = `[GUAC-${LogLevel[record.level]}]${record.source ? ` [${record.source}]` : ''}`;
+    console[CONSOLE_METHODS[record.level]](`${prefix} ${record.message}`, ...record.data);
+  }
+}
+
+/**
+ * Keeps the most recent records in memory, e.g. for a diagnostics export.
+ */
+export class RingBufferSink implements LogSink {
+  readonly name = 'buffer';
+  level?: LogLevel;
+
+  private records: LogRecord[] = [];
+  private capacity: number;
+
+  constructor(capacity: number = 1000, level?: LogLevel) {
+    this.capacity = capacity;
+    this.level = level;
+  }
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.capacity) {
+      this.records.splice(0, this.records.length - this.capacity);
     }
   }
 
+  getRecords(): LogRecord[] {
+    return [...this.records];
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
+
+interface LoggerCore {
+  level: LogLevel;
+  sinks: LogSink[];
+  redaction: RedactionConfig;
+}
+
+// Always present, so recent logs are available even before any setup
+export const logBuffer = new RingBufferSink();
+
+const core: LoggerCore = {
+  level: LogLevel.INFO,
+  sinks: [new ConsoleSink(), logBuffer],
+  redaction: DEFAULT_REDACTION,
+};
+
+export class Logger {
+  private source: string;
+
+  constructor(source: string = '') {
+    this.source = source;
+  }
+
+  /**
+   * Returns a logger whose records are tagged with the given name, nested
+   * under this one's.
+   */
+  child(name: string): Logger {
+    return new Logger(this.source ? `${this.source}:${name}` : name);
+  }
+
+  setLevel(level: LogLevel): void {
+    core.level = level;
+  }
+
+  getLevel(): LogLevel {
+    return core.level;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return level >= core.level;
+  }
+
+  addSink(sink: LogSink): void {
+    core.sinks.push(sink);
+  }
+
+  removeSink(sink: LogSink): void {
+    core.sinks = core.sinks.filter((existing) => existing !== sink);
+    sink.destroy?.();
+  }
+
+  getSinks(): LogSink[] {
+    return [...core.sinks];
+  }
+
+  setRedaction(redaction: RedactionConfig): void {
+    core.redaction = redaction;
+  }
+
+  debug(message: string, ...args: any[]): void {
+    this.log(LogLevel.DEBUG, message, args);
+  }
+
   info(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.INFO) {
-      console.info(`[GUAC-INFO] ${message}`, ...args);
-    }
+    this.log(LogLevel.INFO, message, args);
   }
 
   warn(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.WARN) {
-      console.warn(`[GUAC-WARN] ${message}`, ...args);
-    }
+    this.log(LogLevel.WARN, message, args);
   }
 
   error(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.ERROR) {
-      console.error(`[GUAC-ERROR] ${message}`, ...args);
+    this.log(LogLevel.ERROR, message, args);
+  }
+
+  private log(level: LogLevel, message: string, args: unknown[]): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const record: LogRecord = {
+      timestamp: Date.now(),
+      level,
+      source: this.source,
+      message: redactString(message, core.redaction),
+      data: args.map((arg) => redact(arg, core.redaction)),
+    };
+
+    for (const sink of core.sinks) {
+      if (sink.level !== undefined && level < sink.level) {
+        continue;
+      }
+      try {
+        sink.write(record);
+      } catch {
+        // A broken sink must not take the caller down, nor recurse into logging
+      }
     }
   }
 }
 
 export const logger = new Logger();
+
+/**
+ * Named logger for a module, e.g. `createLogger('ClipboardManager')`.
+ */
+export function createLogger(name: string): Logger {
+  return logger.child(name);
+}
+
+/**
+ * Applies the level saved by `guacamoleLogger.setLevel()` in a previous visit,
+ * falling back to the given default.
+ */
+export function initLogLevel(fallback: LogLevel | null = null): void {
+  let saved: LogLevel | null = null;
+  try {
+    saved = parseLogLevel(window.localStorage.getItem(LOG_LEVEL_STORAGE_KEY));
+  } catch {
+    // Storage can be disabled; the fallback still applies
+  }
+
+  const level = saved ?? fallback;
+  if (level !== null) {
+    logger.setLevel(level);
+  }
+}
+
+declare global {
+  interface Window {
+    guacamoleLogger?: {
+      getLevel(): string;
+      setLevel(level: string, persist?: boolean): void;
+      getRecords(): LogRecord[];
+    };
+  }
+}
+
+/**
+ * Changes the level at runtime. Persisted levels survive reloads until
+ * changed again without `persist`.
+ */
+export function setLogLevel(level: LogLevel, persist: boolean = false): void {
+  logger.setLevel(level);
+
+  try {
+    if (persist) {
+      window.localStorage.setItem(LOG_LEVEL_STORAGE_KEY, LogLevel[level]);
+    } else {
+      window.localStorage.removeItem(LOG_LEVEL_STORAGE_KEY);
+    }
+  } catch {
+    // Not persisted, still applies to this page
+  }
+}
+
+/**
+ * Exposes `window.guacamoleLogger` so support staff can raise the level from
+ * the devtools console without a rebuild or a reload.
+ */
+export function exposeLoggerControls(): void {
+  window.guacamoleLogger = {
+    getLevel: () => LogLevel[logger.getLevel()],
+    setLevel: (value, persist = true) => {
+      const level = parseLogLevel(value);
+      if (level === null) {
+        throw new Error(`Unknown log level: ${value}`);
+      }
+      setLogLevel(level, persist);
+    },
+    getRecords: () => logBuffer.getRecords(),
+  };
+}
@@ -0,0 +1,2 @@
+// Shown in the footer and included in diagnostics bundles
+export const CLIENT_VERSION = '1.0.0';